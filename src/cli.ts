@@ -1,13 +1,23 @@
 #!/usr/bin/env node
 
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { initCommand } from './commands/init.js';
 import { downloadCommand } from './commands/download.js';
+import { installCommand } from './commands/install.js';
+import { updateCommand } from './commands/update.js';
+import { diffCommand } from './commands/diff.js';
+import { removeCommand } from './commands/remove.js';
+import { statusCommand } from './commands/status.js';
+import { depsCommand } from './commands/deps.js';
+import { whyCommand } from './commands/why.js';
 import { listCommand } from './commands/list.js';
 import { searchCommand } from './commands/search.js';
 import { branchesCommand } from './commands/branches.js';
 import { configCommand } from './commands/config.js';
 import { cacheCommand } from './commands/cache.js';
+import { configureInteraction } from './utils/interaction.js';
+import { configureFetch } from './utils/fetch-policy.js';
+import { logger } from './utils/logger.js';
 import { version } from '../package.json';
 
 const program = new Command();
@@ -15,11 +25,24 @@ const program = new Command();
 program
   .name('mui-bueno')
   .description('CLI tool for downloading and managing MUI Bueno components')
-  .version(version);
+  .version(version)
+  .option('-y, --yes', 'Never prompt; answer confirmations with yes')
+  .option('--non-interactive', 'Never prompt; use defaults (automatic when stdin is not a TTY)')
+  .option('--refresh', 'Fetch the repository even if the cache is still fresh')
+  .addOption(new Option('--offline', 'Work from the repository cache only, never fetch').conflicts('refresh'))
+  .option('--verbose', 'Print debug output (also enabled by setting DEBUG)')
+  .hook('preAction', () => {
+    configureInteraction(program.opts());
+    configureFetch(program.opts());
+    if (program.opts().verbose) {
+      logger.setVerbose(true);
+    }
+  });
 
 program
   .command('init')
   .description('Initialize configuration for MUI Bueno')
+  .option('--json', 'Output the result as JSON')
   .action(initCommand);
 
 program
@@ -29,31 +52,102 @@ program
   .option('-v, --version <version>', 'Specify a version (tag) to download')
   .option('-c, --commit <commit>', 'Specify a commit hash to download')
   .option('-o, --output-dir <dir>', 'Specify output directory')
-  .option('-f, --force', 'Force overwrite if component already exists')
+  .option('-f, --force', 'Take the upstream version of every file with local changes (same as --on-conflict theirs)')
+  .option('--on-conflict <strategy>', 'Resolve files with local changes without prompting: mine, theirs, incoming (keep mine, write theirs to .incoming) or orig (take theirs, keep mine as .orig)')
   .option('--no-tests', 'Exclude test files')
   .option('--include-stories', 'Include story files')
+  .option('--include <glob>', 'Copy files matching the glob even if the file policy excludes them (repeatable)', (val, prev: string[]) => [...prev, val], [])
+  .option('--exclude <glob>', 'Leave out files matching the glob, relative to the upstream src directory (repeatable)', (val, prev: string[]) => [...prev, val], [])
   .option('--install-deps', 'Install dependencies after download')
-  .option('--package-manager <manager>', 'Package manager to use for installing dependencies (npm, yarn, or pnpm)')
+  .option('--package-manager <manager>', 'Package manager to install dependencies with: npm, yarn, pnpm or bun (detected from the lockfile by default)')
+  .option('--no-install', 'With --install-deps or --write-package-json, do not run the package manager')
+  .option('--write-package-json', 'Add the needed packages to package.json instead of installing them one by one')
+  .option('--allow-version-mismatch', 'Download even if the project has other major versions of MUI, React or emotion than upstream')
+  .option('--dry-run', 'Show the files, shared files and npm packages the download would add, without writing anything')
+  .option('--keep-going', 'Skip dependencies and files that fail instead of aborting, writing directly into the project')
+  .option('--json', 'Output the result (or the --dry-run plan) as JSON')
   .action(downloadCommand);
 
+program
+  .command('install')
+  .alias('i')
+  .description('Install the components recorded in mui-bueno.json at their locked commits')
+  .option('--keep-going', 'Skip dependencies and files that fail instead of aborting, writing directly into the project')
+  .option('--allow-version-mismatch', 'Install even if the project has other major versions of MUI, React or emotion than upstream')
+  .option('--json', 'Output the result as JSON')
+  .action(installCommand);
+
+program
+  .command('update <component>')
+  .description('Update a downloaded component, merging upstream changes with local edits')
+  .option('-t, --to <ref>', 'Tag, branch or commit to update to (defaults to the configured branch)')
+  .option('--json', 'Output the result as JSON')
+  .action(updateCommand);
+
+program
+  .command('diff <component>')
+  .description('Show differences between a local component and upstream')
+  .option('-r, --ref <ref>', 'Tag, branch or commit to compare against (defaults to the downloaded commit)')
+  .option('-o, --output-dir <dir>', 'Directory the component was downloaded to')
+  .option('--name-only', 'Only list changed files')
+  .option('--json', 'Output the result as JSON')
+  .action(diffCommand);
+
+program
+  .command('remove <component>')
+  .alias('rm')
+  .description('Remove a component and any dependencies no other component still needs')
+  .option('-f, --force', 'Remove even if other components or project files still use it')
+  .option('--dry-run', 'Only show what would be removed')
+  .option('--json', 'Output the result as JSON')
+  .action(removeCommand);
+
+program
+  .command('status')
+  .alias('outdated')
+  .description('Show installed components compared with upstream and local modifications')
+  .option('--json', 'Output the result as JSON')
+  .option('--max-behind <number>', 'Exit with a non-zero code if a component is more upstream commits behind than this', (val) => parseInt(val, 10))
+  .action(statusCommand);
+
+program
+  .command('deps <component>')
+  .description('Show the components, shared files and npm packages a component brings with it')
+  .option('-r, --ref <ref>', 'Tag, branch or commit to inspect (defaults to the configured branch)')
+  .option('-f, --format <format>', 'Output format: tree, json or dot', 'tree')
+  .option('--json', 'Shorthand for --format json')
+  .action(depsCommand);
+
+program
+  .command('why <target>')
+  .description('Explain which installed components pulled in a component or file')
+  .option('-f, --format <format>', 'Output format: tree, json or dot', 'tree')
+  .option('--json', 'Shorthand for --format json')
+  .action(whyCommand);
+
 program
   .command('list')
   .alias('ls')
   .description('List available components in the repository')
   .option('-b, --branch <branch>', 'Specify branch to list from')
+  .option('-s, --source <name>', 'Only list components of this source')
   .option('-l, --limit <number>', 'Limit number of components listed', (val) => parseInt(val, 10))
+  .option('--json', 'Output the result as JSON')
   .action(listCommand);
 
 program
   .command('search <query>')
   .description('Search for components')
   .option('-b, --branch <branch>', 'Specify branch to search')
+  .option('-s, --source <name>', 'Only search components of this source')
   .option('-l, --limit <number>', 'Limit number of results', (val) => parseInt(val, 10))
+  .option('--json', 'Output the result as JSON')
   .action(searchCommand);
 
 program
   .command('branches')
   .description('List available branches and tags')
+  .option('--json', 'Output the result as JSON')
   .action(branchesCommand);
 
 program
@@ -61,12 +155,15 @@ program
   .description('Manage CLI configuration')
   .option('-r, --reset', 'Reset/delete existing configuration')
   .option('-e, --edit', 'Edit configuration interactively')
+  .option('--json', 'Output the result as JSON')
   .action(configCommand);
 
 program
   .command('cache')
-  .description('Manage local repository cache')
+  .description('List, size and clear the local repository caches')
   .option('-c, --clear', 'Clear repository cache')
+  .option('-r, --repo <url>', 'Only the cache of this repository (URL or cache key)')
+  .option('--json', 'Output the result as JSON')
   .action(cacheCommand);
 
 program.parse(); 
\ No newline at end of file
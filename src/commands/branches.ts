@@ -1,19 +1,35 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { exitWithError } from '../utils/errors.js';
 import { GitService } from '../services/git/git-service.js';
 
-export async function branchesCommand(): Promise<void> {
+interface BranchesOptions {
+  json?: boolean;
+}
+
+export async function branchesCommand(options: BranchesOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
   const spinner = ora('Fetching branches and tags...').start();
   try {
     const configManager = new ConfigManager();
     const config = await configManager.load();
-    const gitService = new GitService(config.git, config.cacheDir);
+    const gitService = new GitService(config.git, config.cacheDir, {
+      lockTimeout: config.cacheLockTimeout,
+      fetchTtl: config.fetchTtl,
+      clone: config.clone
+    });
 
     const gitInfo = await gitService.getGitInfo();
 
     spinner.stop();
 
+    if (options.json) {
+      console.log(JSON.stringify(gitInfo, null, 2));
+      return;
+    }
+
     console.log(chalk.blue('\nBranches:'));
     gitInfo.availableBranches.forEach(branch => {
       const prefix = branch === gitInfo.currentBranch ? chalk.green('*') : ' ';
@@ -29,6 +45,6 @@ export async function branchesCommand(): Promise<void> {
     console.log(chalk.dim(`Latest commit: ${gitInfo.latestCommit}`));
   } catch (error) {
     spinner.fail('Failed to fetch branches and tags');
-    console.error(error);
+    exitWithError(error, options.json);
   }
 } 
\ No newline at end of file
@@ -2,11 +2,31 @@ import chalk from 'chalk';
 import ora from 'ora';
 import fs from 'fs-extra';
 import path from 'path';
-import inquirer from 'inquirer';
 import { ConfigManager } from '../utils/config.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { confirm, isInteractive } from '../utils/interaction.js';
+import { CACHE_LOCK_FILE, CacheLock } from '../utils/cache-lock.js';
+import { redactSecrets } from '../utils/git-auth.js';
+import {
+  CachedRepository,
+  REPOSITORIES_DIR,
+  SNAPSHOTS_DIR,
+  listCachedRepositories,
+  normalizeRepositoryUrl,
+  readLastFetch
+} from '../utils/repository-cache.js';
 
 interface CacheOptions {
   clear?: boolean;
+  /** Only the cache of this repository (URL or cache key) */
+  repo?: string;
+  json?: boolean;
+}
+
+interface RepositoryUsage extends CachedRepository {
+  sizeBytes: number;
+  snapshots: number;
+  fetchedAt: string | null;
 }
 
 export async function cacheCommand(options: CacheOptions = {}): Promise<void> {
@@ -15,55 +35,137 @@ export async function cacheCommand(options: CacheOptions = {}): Promise<void> {
   const cacheDir = config.cacheDir;
 
   if (!cacheDir) {
-    console.log(chalk.red('Cache directory is not configured.'));
-    return;
+    exitWithError(new CliError('Cache directory is not configured.', ExitCode.InvalidConfig), options.json);
+  }
+
+  const repositories = await listCachedRepositories(cacheDir);
+  const selected = options.repo ? repositories.filter(repository => matchesRepository(repository, options.repo!)) : repositories;
+  if (options.repo && selected.length === 0) {
+    exitWithError(new CliError(`No cached repository matches "${options.repo}".`, ExitCode.NotFound), options.json);
   }
 
   if (options.clear) {
-    const { confirm } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: `This will delete the cache directory at ${cacheDir}. Continue?`,
-        default: false
+    const target = options.repo ? `the cache of ${describeRepository(selected[0])}` : `the cache directory at ${cacheDir}`;
+    if (!await confirm(`This will delete ${target}. Continue?`, false)) {
+      if (!isInteractive()) {
+        exitWithError(new CliError('Clearing the cache needs confirmation. Pass --yes to clear without a prompt.'), options.json);
       }
-    ]);
-
-    if (!confirm) {
       console.log(chalk.yellow('Cache clear cancelled.'));
       return;
     }
 
     const spinner = ora('Clearing cache...').start();
     try {
-      await fs.remove(cacheDir);
-      spinner.succeed('Cache cleared successfully.');
+      for (const repository of selected) {
+        await clearRepository(repository, config.cacheLockTimeout);
+      }
+      if (!options.repo && await fs.pathExists(cacheDir)) {
+        // Whatever is left is not in use by any command: caches from older versions of the CLI
+        for (const entry of await fs.readdir(cacheDir)) {
+          if (entry !== REPOSITORIES_DIR) {
+            await fs.remove(path.join(cacheDir, entry));
+          }
+        }
+        await fs.rmdir(path.join(cacheDir, REPOSITORIES_DIR)).catch(() => undefined);
+        await fs.rmdir(cacheDir).catch(() => undefined);
+      }
+
+      spinner.succeed(options.repo ? `Cleared the cache of ${describeRepository(selected[0])}.` : 'Cache cleared successfully.');
+      if (options.json) {
+        console.log(JSON.stringify({ cacheDir, cleared: selected.map(repository => repository.key) }, null, 2));
+      }
     } catch (error) {
       spinner.fail('Failed to clear cache.');
-      console.error(error);
+      exitWithError(error, options.json);
     }
     return;
   }
 
   const exists = await fs.pathExists(cacheDir);
   if (!exists) {
-    console.log(chalk.yellow('Cache directory does not exist.'));
+    if (options.json) {
+      console.log(JSON.stringify({ cacheDir, exists: false, sizeBytes: 0, repositories: [] }, null, 2));
+    } else {
+      console.log(chalk.yellow('Cache directory does not exist.'));
+    }
     return;
   }
 
   const spinner = ora('Calculating cache size...').start();
   try {
-    const sizeBytes = await getDirSize(cacheDir);
+    const usage: RepositoryUsage[] = [];
+    for (const repository of selected) {
+      const snapshotsDir = path.join(repository.path, SNAPSHOTS_DIR);
+      usage.push({
+        ...repository,
+        sizeBytes: await getDirSize(repository.path),
+        snapshots: await fs.pathExists(snapshotsDir)
+          ? (await fs.readdir(snapshotsDir)).filter(entry => !entry.startsWith('.')).length
+          : 0,
+        fetchedAt: (await readLastFetch(repository.path))?.toISOString() || null
+      });
+    }
+    const sizeBytes = options.repo ? usage.reduce((total, repository) => total + repository.sizeBytes, 0) : await getDirSize(cacheDir);
     spinner.stop();
-    const sizeMB = (sizeBytes / (1024 * 1024)).toFixed(2);
+
+    if (options.json) {
+      const repositories = usage.map(repository => ({ ...repository, url: repository.url && redactSecrets(repository.url) }));
+      console.log(JSON.stringify({ cacheDir, exists: true, sizeBytes, repositories }, null, 2));
+      return;
+    }
+
     console.log(chalk.blue(`Cache directory: ${cacheDir}`));
-    console.log(chalk.blue(`Cache size: ${sizeMB} MB`));
+    console.log(chalk.blue(`Cache size: ${formatSize(sizeBytes)}`));
+    if (usage.length === 0) {
+      console.log(chalk.dim('\nNo repositories cached.'));
+    } else {
+      console.log('\nRepositories:');
+      usage.forEach(repository => {
+        console.log(`  ${chalk.bold(repository.url ? redactSecrets(repository.url) : chalk.red('(broken clone)'))}`);
+        const fetched = repository.fetchedAt ? `fetched ${new Date(repository.fetchedAt).toLocaleString()}` : 'never fetched';
+        console.log(chalk.dim(`    ${repository.key}  ${formatSize(repository.sizeBytes)}  ${repository.snapshots} snapshot(s)  ${fetched}`));
+      });
+    }
+
+    const unused = sizeBytes - usage.reduce((total, repository) => total + repository.sizeBytes, 0);
+    if (!options.repo && unused > 0) {
+      console.log(chalk.dim(`\nUnused files from older versions: ${formatSize(unused)} (removed by cache --clear)`));
+    }
   } catch (error) {
     spinner.fail('Failed to calculate cache size.');
-    console.error(error);
+    exitWithError(error, options.json);
   }
 }
 
+/** Match a cache key, or a URL naming the same repository as the clone's origin */
+function matchesRepository(repository: CachedRepository, query: string): boolean {
+  return repository.key === query || (!!repository.url && normalizeRepositoryUrl(repository.url) === normalizeRepositoryUrl(query));
+}
+
+function describeRepository(repository: CachedRepository): string {
+  return repository.url ? redactSecrets(repository.url) : repository.key;
+}
+
+/**
+ * Delete a repository's cache under its lock, so a command using it is not left with half a
+ * clone. The lock file itself goes when the lock is released.
+ */
+async function clearRepository(repository: CachedRepository, lockTimeout?: number): Promise<void> {
+  await new CacheLock(repository.path, lockTimeout).withLock(async () => {
+    for (const entry of await fs.readdir(repository.path)) {
+      if (entry !== CACHE_LOCK_FILE) {
+        await fs.remove(path.join(repository.path, entry));
+      }
+    }
+  });
+  // Fails when another command has started using the repository again
+  await fs.rmdir(repository.path).catch(() => undefined);
+}
+
+function formatSize(bytes: number): string {
+  return `${(bytes / (1024 * 1024)).toFixed(2)} MB`;
+}
+
 async function getDirSize(dir: string): Promise<number> {
   let size = 0;
   const entries = await fs.readdir(dir, { withFileTypes: true });
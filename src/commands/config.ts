@@ -1,42 +1,44 @@
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { ConfigManager } from '../utils/config.js';
+import { CliError, exitWithError } from '../utils/errors.js';
+import { confirm, isInteractive } from '../utils/interaction.js';
 import { initCommand } from './init.js';
 
 interface ConfigOptions {
   reset?: boolean;
   edit?: boolean;
+  json?: boolean;
 }
 
 export async function configCommand(options: ConfigOptions = {}): Promise<void> {
   const configManager = new ConfigManager();
 
   if (options.reset) {
-    const { confirm } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'confirm',
-        message: 'This will delete existing configuration. Continue?',
-        default: false
+    if (!await confirm('This will delete existing configuration. Continue?', false)) {
+      if (!isInteractive()) {
+        exitWithError(new CliError('Resetting the configuration needs confirmation. Pass --yes to reset without a prompt.'), options.json);
       }
-    ]);
-
-    if (!confirm) {
       console.log(chalk.yellow('Reset cancelled.'));
       return;
     }
 
     await configManager.reset();
-    console.log(chalk.green('Configuration reset.'));
+    if (options.json) {
+      console.log(JSON.stringify({ reset: true }, null, 2));
+    } else {
+      console.log(chalk.green('Configuration reset.'));
+    }
     return;
   }
 
   if (options.edit) {
-    await initCommand();
+    await initCommand({ json: options.json });
     return;
   }
 
   const config = await configManager.load();
-  console.log(chalk.blue('Current configuration:\n'));
+  if (!options.json) {
+    console.log(chalk.blue('Current configuration:\n'));
+  }
   console.log(JSON.stringify(config, null, 2));
 } 
\ No newline at end of file
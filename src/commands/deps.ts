@@ -0,0 +1,61 @@
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../utils/config.js';
+import { ManifestManager } from '../utils/manifest.js';
+import { logger } from '../utils/logger.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { GRAPH_FORMATS, GraphFormat, renderDot, renderTree } from '../utils/dependency-graph.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { getManifestSourceUrls, parseComponentName } from '../utils/sources.js';
+
+interface DepsOptions {
+  ref?: string;
+  format?: GraphFormat;
+  json?: boolean;
+}
+
+export async function depsCommand(componentName: string, options: DepsOptions = {}): Promise<void> {
+  const format = options.json ? 'json' : options.format || 'tree';
+  if (!GRAPH_FORMATS.includes(format)) {
+    exitWithError(`Unknown format "${format}". Use one of: ${GRAPH_FORMATS.join(', ')}`);
+  }
+
+  logger.setSilent(format !== 'tree');
+  const spinner = ora(`Resolving dependencies of ${componentName}...`);
+  if (format === 'tree') {
+    spinner.start();
+  }
+
+  try {
+    const configManager = new ConfigManager();
+    const config = await configManager.load();
+    const manifest = await new ManifestManager().load();
+    const sources = new ComponentSourceService(config, { repositoryUrls: getManifestSourceUrls(manifest) });
+    const { source, name } = parseComponentName(componentName);
+    const gitService = sources.get(source);
+
+    const graph = await gitService.resolveDependencyGraph(name, options.ref || gitService.branch);
+    spinner.stop();
+
+    if (format === 'json') {
+      console.log(JSON.stringify(graph, null, 2));
+      return;
+    }
+    if (format === 'dot') {
+      console.log(renderDot(graph));
+      return;
+    }
+
+    const nodes = Object.values(graph.nodes);
+    const sharedFiles = new Set(nodes.flatMap(node => node.sharedFiles));
+    const packages = new Set(nodes.flatMap(node => node.packages));
+
+    console.log(chalk.blue(`\n📦 ${componentName}@${graph.ref} (${graph.commit?.slice(0, 7)})\n`));
+    console.log(renderTree(graph));
+    console.log(chalk.dim(`\n${nodes.length} component(s), ${sharedFiles.size} shared file(s), ${packages.size} npm package(s)`));
+  } catch (error) {
+    spinner.fail(`Failed to resolve dependencies of ${componentName}`);
+    const message = error instanceof Error ? error.message : String(error);
+    exitWithError(message.includes('not found') ? new CliError(message, ExitCode.NotFound) : error, format === 'json');
+  }
+}
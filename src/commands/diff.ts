@@ -0,0 +1,122 @@
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../utils/config.js';
+import { ManifestManager, listFiles, toPosix } from '../utils/manifest.js';
+import { logger } from '../utils/logger.js';
+import { createPatch, printPatch } from '../utils/patch.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { getManifestSourceUrls, parseComponentName } from '../utils/sources.js';
+
+interface DiffOptions {
+  ref?: string;
+  outputDir?: string;
+  nameOnly?: boolean;
+  json?: boolean;
+}
+
+type DiffStatus = 'modified' | 'added' | 'deleted';
+
+interface FileDiff {
+  path: string;
+  status: DiffStatus;
+  patch: string;
+}
+
+const STATUS_LETTERS: Record<DiffStatus, string> = {
+  modified: 'M',
+  added: 'A',
+  deleted: 'D'
+};
+
+export async function diffCommand(componentName: string, options: DiffOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
+  const spinner = ora('Comparing with upstream...');
+  if (!options.json) {
+    spinner.start();
+  }
+
+  try {
+    const configManager = new ConfigManager();
+    const config = await configManager.load();
+    const manifest = await new ManifestManager().load();
+    const { source, name } = parseComponentName(componentName);
+    const locked = manifest?.lock.components[name];
+
+    const outputDir = options.outputDir || manifest?.componentsDir || config.defaultDownloadPath || './components';
+    const localDir = path.join(outputDir, ...name.split('/'));
+
+    if (!await fs.pathExists(localDir)) {
+      spinner.fail(`Failed to diff ${componentName}`);
+      throw new CliError(`Component "${componentName}" not found in ${outputDir}`, ExitCode.NotFound);
+    }
+
+    // Without an explicit ref, compare against what was downloaded
+    const ref = options.ref || locked?.commit;
+    // Locked components are compared as they were copied, e.g. with or without stories
+    const sources = new ComponentSourceService(config, {
+      importStyle: config.importStyle,
+      repositoryUrls: getManifestSourceUrls(manifest)
+    });
+    const gitService = (locked ? sources.withFilePolicy(locked.filePolicy) : sources).get(locked?.source || source);
+    const upstream = await gitService.getComponentFiles(name, ref, outputDir);
+
+    const local: Record<string, string> = {};
+    for (const file of await listFiles(localDir)) {
+      local[toPosix(path.relative(localDir, file))] = await fs.readFile(file, 'utf-8');
+    }
+
+    const diffs: FileDiff[] = [];
+    const allPaths = new Set([...Object.keys(upstream.files), ...Object.keys(local)]);
+
+    for (const file of Array.from(allPaths).sort()) {
+      const before = upstream.files[file];
+      const after = local[file];
+
+      // Files filtered out when the component was downloaded (e.g. tests) are not local deletions
+      if (after === undefined && locked && !(file in locked.files)) {
+        continue;
+      }
+      if (before === after) {
+        continue;
+      }
+
+      const status: DiffStatus = before === undefined ? 'added' : after === undefined ? 'deleted' : 'modified';
+      const displayPath = toPosix(path.join(name, file));
+      diffs.push({
+        path: displayPath,
+        status,
+        patch: createPatch(displayPath, before, after)
+      });
+    }
+
+    spinner.stop();
+    const refLabel = `${ref || gitService.branch} (${upstream.commit.slice(0, 7)})`;
+
+    if (options.json) {
+      const files = diffs.map(d => options.nameOnly ? { path: d.path, status: d.status } : d);
+      console.log(JSON.stringify({ component: componentName, ref: ref || null, commit: upstream.commit, files }, null, 2));
+      return;
+    }
+
+    if (diffs.length === 0) {
+      console.log(chalk.green(`No differences between local ${componentName} and ${refLabel}.`));
+      return;
+    }
+
+    if (options.nameOnly) {
+      diffs.forEach(d => console.log(`${STATUS_LETTERS[d.status]}\t${d.path}`));
+      return;
+    }
+
+    console.log(chalk.dim(`Comparing ${refLabel} → local ${localDir}\n`));
+    diffs.forEach(d => printPatch(d.patch));
+  } catch (error) {
+    if (!(error instanceof CliError)) {
+      spinner.fail(`Failed to diff ${componentName}`);
+    }
+    exitWithError(error, options.json);
+  }
+}
@@ -1,16 +1,39 @@
 import fs from 'fs-extra';
 import path from 'path';
+import os from 'os';
 import chalk from 'chalk';
 import ora from 'ora';
 import inquirer from 'inquirer';
 import { ConfigManager } from '../utils/config.js';
+import { ManifestManager, toPosix } from '../utils/manifest.js';
+import { logger } from '../utils/logger.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { confirm, isInteractive } from '../utils/interaction.js';
+import { printPatch } from '../utils/patch.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
 import { GitService } from '../services/git/git-service.js';
-import { DownloadOptions } from '../types/index.js';
+import { FilePolicyService, STORY_FILES, TEST_FILES } from '../services/git/file-policy.service.js';
+import { DownloadPlanService } from '../services/git/download-plan.service.js';
+import { CONFLICT_STRATEGIES, ConflictResolutionService } from '../services/git/conflict-resolution.service.js';
+import { ModuleGraphService } from '../services/git/module-graph.service.js';
+import { PathAliasService } from '../services/git/path-alias.service.js';
+import { PackageResolutionService, describeVersionMismatches } from '../services/git/package-resolution.service.js';
+import { PackageCommand, PackageManagerService } from '../services/git/package-manager.service.js';
+import { ConflictStrategy, DownloadOptions, DownloadPlan, DownloadResult, FileConflict, PackageAction, PackageResolution, PlannedFileAction } from '../types/index.js';
+import { SourceComponentName, formatComponentName, parseComponentName } from '../utils/sources.js';
+
+const moduleGraphService = new ModuleGraphService();
 
 export async function downloadCommand(componentName?: string, options: DownloadOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
   const spinner = ora('Initializing download...').start();
   
   try {
+    if (options.onConflict && !CONFLICT_STRATEGIES.includes(options.onConflict as ConflictStrategy)) {
+      spinner.stop();
+      throw new CliError(`Unknown conflict strategy "${options.onConflict}". Use one of: ${CONFLICT_STRATEGIES.join(', ')}`);
+    }
+
     // Load configuration
     const configManager = new ConfigManager();
     const config = await configManager.load();
@@ -19,14 +42,20 @@ export async function downloadCommand(componentName?: string, options: DownloadO
     const configValidation = await configManager.validateConfig();
     if (!configValidation.valid) {
       spinner.fail('Configuration is invalid');
-      console.error(chalk.red('Configuration errors:'));
-      configValidation.errors.forEach(error => console.error(chalk.red(`  - ${error}`)));
-      console.log(chalk.yellow('\nRun "mui-bueno init" to fix configuration issues.'));
-      return;
+      throw new CliError(
+        `Configuration errors:\n  - ${configValidation.errors.join('\n  - ')}\nRun "mui-bueno init" to fix configuration issues.`,
+        ExitCode.InvalidConfig,
+        { errors: configValidation.errors }
+      );
     }
 
-    // Initialize git service
-    const gitService = new GitService(config.git, config.cacheDir);
+    // Initialize git services, one per source
+    const filePolicy = new FilePolicyService(config.files || {}, {
+      include: [...(options.includeStories ? STORY_FILES : []), ...(options.include || [])],
+      exclude: [...(options.tests === false ? TEST_FILES : []), ...(options.exclude || [])]
+    });
+    const sources = new ComponentSourceService(config, { importStyle: config.importStyle, keepGoing: options.keepGoing, filePolicy });
+    const gitService = sources.get(componentName ? parseComponentName(componentName).source : undefined);
 
     // Test git connection
     spinner.text = 'Testing SSH connection to repository...';
@@ -34,9 +63,10 @@ export async function downloadCommand(componentName?: string, options: DownloadO
     
     if (!isConnected) {
       spinner.fail('Failed to connect to git repository');
-      console.error(chalk.red('Please ensure you have SSH access to the repository and try again.'));
-      console.error(chalk.red('Run "ssh -T git@bitbucket.org" to test your SSH connection.'));
-      return;
+      throw new CliError(
+        'Please ensure you have SSH access to the repository and try again.\nRun "ssh -T git@bitbucket.org" to test your SSH connection.',
+        ExitCode.AuthFailure
+      );
     }
 
     let targetComponent = componentName;
@@ -44,12 +74,18 @@ export async function downloadCommand(componentName?: string, options: DownloadO
 
     // If no component specified, let user search and select
     if (!targetComponent) {
+      if (!isInteractive()) {
+        spinner.stop();
+        throw new CliError('No component given. Pass the component name when running non-interactively.');
+      }
+
       spinner.text = 'Fetching available components...';
-      const components = await gitService.listComponents(options.branch);
+      const components = (await sources.listComponents(options.branch))
+        .map(component => ({ ...component, name: formatComponentName(component.name, component.source) }));
       
       if (components.length === 0) {
         spinner.fail('No components found in the repository');
-        return;
+        throw new CliError('No components found in the repository', ExitCode.NotFound);
       }
 
       spinner.stop();
@@ -92,8 +128,7 @@ export async function downloadCommand(componentName?: string, options: DownloadO
         );
 
         if (filteredComponents.length === 0) {
-          console.log(chalk.yellow(`No components found matching "${searchQuery}"`));
-          return;
+          throw new CliError(`No components found matching "${searchQuery}"`, ExitCode.NotFound);
         }
 
         const { selectedFromSearch } = await inquirer.prompt([
@@ -119,11 +154,12 @@ export async function downloadCommand(componentName?: string, options: DownloadO
       console.log(chalk.yellow('No component selected for download.'));
       return;
     }
+    const target = parseComponentName(targetComponent);
 
-    // If no version specified, let user choose
-    if (!targetVersion) {
+    // If no version specified, let user choose (non-interactive runs use the current branch)
+    if (!targetVersion && isInteractive()) {
       spinner.start('Fetching available versions...');
-      const gitInfo = await gitService.getGitInfo();
+      const gitInfo = await sources.get(target.source).getGitInfo();
       spinner.stop();
 
       const versionChoices = [
@@ -152,163 +188,254 @@ export async function downloadCommand(componentName?: string, options: DownloadO
     // Determine output directory
     const outputDir = options.outputDir || config.defaultDownloadPath || './components';
 
-    // Check if component already exists
-    const componentPath = path.join(outputDir, targetComponent);
-    if (await fs.pathExists(componentPath) && !options.force) {
-      const { overwrite } = await inquirer.prompt([
-        {
-          type: 'confirm',
-          name: 'overwrite',
-          message: `Component "${targetComponent}" already exists. Overwrite?`,
-          default: false
-        }
-      ]);
+    if (options.dryRun) {
+      spinner.start(`Planning download of ${targetComponent}${targetVersion ? `@${targetVersion}` : ''}...`);
+      const plan = await planDownload(target, sources, targetVersion, outputDir, options);
+      spinner.stop();
+      if (options.json) {
+        console.log(JSON.stringify(plan, null, 2));
+      } else {
+        printDownloadPlan(plan);
+      }
+      return;
+    }
+
+    // Best-effort downloads write straight into the project, so conflicts cannot be resolved per file
+    const componentPath = path.join(outputDir, target.name);
+    if (options.keepGoing && await fs.pathExists(componentPath) && !options.force) {
+      spinner.stop();
+      const overwrite = await confirm(`Component "${targetComponent}" already exists. Overwrite?`, false);
 
       if (!overwrite) {
+        if (!isInteractive()) {
+          throw new CliError(`Component "${targetComponent}" already exists in ${outputDir}. Pass --force or --yes to overwrite it.`, ExitCode.Conflict);
+        }
         console.log(chalk.yellow('Download cancelled.'));
         return;
       }
     }
 
-    // Download component
-    const downloadSpinner = ora(`Analyzing and downloading ${targetComponent}${targetVersion ? `@${targetVersion}` : ''}...`).start();
-    
+    spinner.stop();
+
+    let result: DownloadResult;
     try {
-      downloadSpinner.stop();
-      console.log(chalk.blue(`\n📦 Downloading ${targetComponent}${targetVersion ? `@${targetVersion}` : ''} and dependencies...\n`));
-      
-      const extractedPath = await gitService.downloadComponent(
-        targetComponent, 
-        targetVersion, 
-        outputDir
-      );
+      result = await runDownload(target, sources, targetVersion, outputDir, options);
+    } catch (error) {
+      // Intelligent suggestion when component not found
+      const errorMessage = String(error);
+      if (!(errorMessage.includes('Component') && errorMessage.includes('not found'))) {
+        throw error;
+      }
 
-      console.log(chalk.green(`\n✅ ${targetComponent}${targetVersion ? `@${targetVersion}` : ''} and all dependencies downloaded successfully!`));
-      console.log(chalk.dim(`   Main component location: ${extractedPath}`));
+      const componentMatch = errorMessage.match(/Component "([^"]+)" not found/);
+      const searchedComponent = componentMatch ? componentMatch[1] : targetComponent;
 
-      // Post-download processing
-      // Tests are included by default, only remove if explicitly excluded
-      if (options.tests === false) {
-        await removeTestFiles(outputDir);
-      }
+      // Fetch available components to generate suggestions
+      const allComponents = await sources.listComponents(options.branch);
+      const suggestions = getComponentSuggestions(allComponents.map(c => formatComponentName(c.name, c.source)), searchedComponent);
 
-      // Stories are excluded by default, only remove if not explicitly included
-      if (!options.includeStories) {
-        await removeStoryFiles(outputDir);
+      const suggestion = isInteractive() ? await chooseSuggestion(searchedComponent, suggestions) : undefined;
+      if (!suggestion) {
+        const hint = suggestions.length > 0 ? ` Did you mean: ${suggestions.join(', ')}?` : '';
+        throw new CliError(`Component "${searchedComponent}" not found.${hint}`, ExitCode.NotFound, { suggestions });
       }
 
-      // Show component info
-      await showComponentInfo(extractedPath, targetVersion);
+      result = await runDownload(parseComponentName(suggestion), sources, targetVersion, outputDir, options);
+    }
 
-      // Install dependencies if requested
-      if (options.installDeps) {
-        await installComponentDependencies(extractedPath, options.packageManager || 'pnpm');
+    if (options.json) {
+      console.log(JSON.stringify({
+        component: result.components[0]?.name,
+        ref: result.ref || null,
+        commit: result.commit,
+        outputDir: toPosix(path.relative(process.cwd(), path.resolve(outputDir))) || '.',
+        components: result.components.map(component => ({
+          ...component,
+          path: toPosix(path.relative(process.cwd(), component.path))
+        })),
+        excludedFiles: result.excludedFiles
+      }, null, 2));
+    }
+  } catch (error) {
+    if (!(error instanceof CliError)) {
+      spinner.fail('Download failed');
+    }
+    exitWithError(error, options.json);
+  }
+}
+
+/**
+ * Download a component with its dependencies into the project, record it in the manifest and
+ * show what was downloaded.
+ */
+async function runDownload(
+  component: SourceComponentName,
+  sources: ComponentSourceService,
+  targetVersion: string | undefined,
+  outputDir: string,
+  options: DownloadOptions
+): Promise<DownloadResult> {
+  const label = `${formatComponentName(component.name, component.source)}${targetVersion ? `@${targetVersion}` : ''}`;
+  logger.info(chalk.blue(`\n📦 Downloading ${label} and dependencies...\n`));
+
+  // Versions are checked and conflicts resolved before the download is moved into the project
+  const gitService = sources.get(component.source);
+  let conflictService: ConflictResolutionService | undefined;
+  const result = await gitService.downloadComponentStaged(component.name, targetVersion, outputDir, {
+    prepare: async (stagedOutputDir, staged) => {
+      await checkVersionCompatibility(gitService, staged, stagedOutputDir, outputDir, options);
+      if (!options.keepGoing) {
+        conflictService = new ConflictResolutionService(stagedOutputDir, outputDir);
+        await resolveConflicts(conflictService, staged, options);
       }
+    }
+  });
+  const extractedPath = result.extractedPath;
 
-    } catch (error) {
-      downloadSpinner.fail(`Failed to download ${targetComponent}`);
-      
-      // Intelligent suggestion when component not found
-      const errorMessage = String(error);
-      if (errorMessage.includes('Component') && errorMessage.includes('not found')) {
-        const componentMatch = errorMessage.match(/Component "([^"]+)" not found/);
-        const searchedComponent = componentMatch ? componentMatch[1] : targetComponent;
+  logger.info(chalk.green(`\n✅ ${label} and all dependencies downloaded successfully!`));
+  logger.info(chalk.dim(`   Main component location: ${extractedPath}`));
+  if (result.excludedFiles.length > 0) {
+    logger.info(chalk.dim(`   Left out by the file policy: ${result.excludedFiles.join(', ')}`));
+  }
 
-        console.error(chalk.red(`Component "${searchedComponent}" not found.`));
+  await recordManifest(component.name, result, sources, outputDir, conflictService?.lockedHashes);
+  const sidecars = await conflictService?.writeSidecars() || [];
+  sidecars.forEach(sidecar => logger.info(chalk.dim(`   Wrote ${toPosix(path.relative(process.cwd(), sidecar))}`)));
 
-        // Fetch available components to generate suggestions
-        const allComponents = await gitService.listComponents(options.branch);
-        const componentNames = allComponents.map(c => c.name);
+  // Show component info
+  if (!options.json) {
+    await showComponentInfo(extractedPath, targetVersion);
+  }
 
-        const suggestions = getComponentSuggestions(componentNames, searchedComponent);
+  // Install dependencies if requested
+  if (options.installDeps || options.writePackageJson) {
+    await installComponentDependencies(result, gitService, outputDir, options);
+  }
 
-        if (suggestions.length === 0) {
-          console.log(chalk.yellow('No similar components found.'));
-          return;
-        }
+  return result;
+}
 
-        // If only one suggestion, confirm prompt; otherwise list
-        if (suggestions.length === 1) {
-          const suggestion = suggestions[0];
-          console.log(chalk.yellow(`\nDid you mean: ${chalk.bold(suggestion)}?`));
-
-          const { useSuggestion } = await inquirer.prompt([
-            {
-              type: 'confirm',
-              name: 'useSuggestion',
-              message: `Download "${suggestion}" instead?`,
-              default: true
-            }
-          ]);
-
-          if (!useSuggestion) {
-            console.log(chalk.yellow('Download cancelled.'));
-            return;
-          }
+/**
+ * Stop before anything is copied when the project has MUI, React or emotion in another major
+ * version than the downloaded components are written against, unless the user accepts it.
+ */
+async function checkVersionCompatibility(
+  gitService: GitService,
+  result: DownloadResult,
+  stagedOutputDir: string,
+  outputDir: string,
+  options: DownloadOptions
+): Promise<void> {
+  const { packageDir } = await new PackageManagerService().findInstallTarget(outputDir);
+  const mismatches = await gitService.findVersionMismatches(result, stagedOutputDir, packageDir);
+  if (mismatches.length === 0) {
+    return;
+  }
 
-          await downloadSuggested(suggestion, gitService, targetVersion, outputDir, options);
-        } else {
-          const { selectedSuggestion } = await inquirer.prompt([
-            {
-              type: 'list',
-              name: 'selectedSuggestion',
-              message: 'Did you mean one of these?',
-              choices: suggestions,
-              pageSize: 15
-            }
-          ]);
-
-          if (selectedSuggestion) {
-            await downloadSuggested(selectedSuggestion, gitService, targetVersion, outputDir, options);
-          } else {
-            console.log(chalk.yellow('Download cancelled.'));
-          }
-        }
-      } else {
-        console.error(chalk.red(`Error: ${error}`));
-      }
+  console.warn(chalk.yellow('\n⚠️  The project has other major versions than upstream of:'));
+  describeVersionMismatches(mismatches).forEach(line => console.warn(chalk.yellow(`  ${line}`)));
+  if (options.allowVersionMismatch || await confirm('Download anyway?', false)) {
+    return;
+  }
+
+  throw new CliError(
+    'Download cancelled: incompatible package versions. Pass --allow-version-mismatch to download anyway.',
+    ExitCode.Conflict,
+    { mismatches }
+  );
+}
+
+/**
+ * Resolve each staged file that would replace local changes: with the --on-conflict strategy
+ * (--force takes theirs) or else a prompt per file. Without a prompt the download fails, unless
+ * --yes is given, which takes theirs.
+ */
+async function resolveConflicts(
+  conflictService: ConflictResolutionService,
+  result: DownloadResult,
+  options: DownloadOptions
+): Promise<void> {
+  const conflicts = await conflictService.findConflicts(result, await new ManifestManager().load());
+  if (conflicts.length === 0) {
+    return;
+  }
+
+  let strategy = (options.onConflict || (options.force ? 'theirs' : undefined)) as ConflictStrategy | undefined;
+  if (!strategy && !isInteractive()) {
+    if (!await confirm(`Overwrite ${conflicts.length} file(s) with local changes?`, false)) {
+      throw new CliError(
+        [
+          `${conflicts.length} file(s) have local changes:`,
+          ...conflicts.map(conflict => `  ${conflict.path}${conflict.reason ? ` (${conflict.reason})` : ''}`),
+          `Pass --on-conflict <${CONFLICT_STRATEGIES.join('|')}>, --force or --yes to resolve them.`
+        ].join('\n'),
+        ExitCode.Conflict,
+        { conflicts }
+      );
     }
+    strategy = 'theirs';
+  }
 
-  } catch (error) {
-    spinner.fail('Download failed');
-    console.error(chalk.red(`Error: ${error}`));
-    process.exit(1);
+  logger.info(chalk.yellow(`\n⚠️  ${conflicts.length} file(s) have local changes:`));
+  for (const conflict of conflicts) {
+    const resolution = strategy || await promptConflictResolution(conflictService, conflict);
+    await conflictService.resolve(conflict, resolution);
+    if (strategy) {
+      logger.info(`  ${resolution.padEnd(8)} ${conflict.path}`);
+    }
   }
 }
 
-async function removeTestFiles(componentPath: string): Promise<void> {
-  try {
-    await removeFilesRecursively(componentPath, (fileName) => 
-      fileName.includes('.test.') || fileName.includes('.spec.')
-    );
-  } catch (error) {
-    console.warn(chalk.yellow(`Warning: Could not remove test files: ${error}`));
+async function promptConflictResolution(conflictService: ConflictResolutionService, conflict: FileConflict): Promise<ConflictStrategy> {
+  while (true) {
+    const { resolution } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'resolution',
+        message: `${conflict.path}${conflict.reason ? chalk.dim(` (${conflict.reason})`) : ''}:`,
+        choices: [
+          { name: 'Keep mine', value: 'mine' },
+          { name: 'Take theirs', value: 'theirs' },
+          { name: 'Show diff', value: '__diff__' },
+          { name: 'Keep mine, write theirs to .incoming', value: 'incoming' },
+          { name: 'Take theirs, keep mine as .orig', value: 'orig' }
+        ]
+      }
+    ]);
+
+    if (resolution !== '__diff__') {
+      return resolution;
+    }
+    printPatch(await conflictService.createPatch(conflict));
   }
 }
 
-async function removeStoryFiles(componentPath: string): Promise<void> {
-  try {
-    await removeFilesRecursively(componentPath, (fileName) => 
-      fileName.includes('.stories.')
-    );
-  } catch (error) {
-    console.warn(chalk.yellow(`Warning: Could not remove story files: ${error}`));
+/** Offer the suggestions for a component that was not found; undefined when declined */
+async function chooseSuggestion(searchedComponent: string, suggestions: string[]): Promise<string | undefined> {
+  console.error(chalk.red(`Component "${searchedComponent}" not found.`));
+
+  if (suggestions.length === 0) {
+    return undefined;
   }
-}
 
-async function removeFilesRecursively(dirPath: string, shouldRemove: (fileName: string) => boolean): Promise<void> {
-  const items = await fs.readdir(dirPath, { withFileTypes: true });
-  
-  for (const item of items) {
-    const itemPath = path.join(dirPath, item.name);
-    
-    if (item.isFile() && shouldRemove(item.name)) {
-      await fs.remove(itemPath);
-    } else if (item.isDirectory()) {
-      // Recursively process subdirectories
-      await removeFilesRecursively(itemPath, shouldRemove);
-    }
+  // If only one suggestion, confirm prompt; otherwise list
+  if (suggestions.length === 1) {
+    const suggestion = suggestions[0];
+    console.log(chalk.yellow(`\nDid you mean: ${chalk.bold(suggestion)}?`));
+    return await confirm(`Download "${suggestion}" instead?`, true) ? suggestion : undefined;
   }
+
+  const { selectedSuggestion } = await inquirer.prompt([
+    {
+      type: 'list',
+      name: 'selectedSuggestion',
+      message: 'Did you mean one of these?',
+      choices: suggestions,
+      pageSize: 15
+    }
+  ]);
+
+  return selectedSuggestion;
 }
 
 async function showComponentInfo(componentPath: string, version?: string): Promise<void> {
@@ -340,19 +467,17 @@ async function showComponentInfo(componentPath: string, version?: string): Promi
       }
 
       // Check for dependencies in the component file
-      const importMatches = componentContent.match(/import\s+.*?\s+from\s+['"]([^'"]+)['"]/g);
-      if (importMatches) {
-        const dependencies = importMatches
-          .map(match => match.match(/from\s+['"]([^'"]+)['"]/)?.[1])
-          .filter(dep => dep && !dep.startsWith('.') && !dep.startsWith('/'))
-          .filter((dep, index, arr) => arr.indexOf(dep) === index);
-        
-        if (dependencies.length > 0) {
-          console.log(chalk.blue('\nDependencies found in component:'));
-          dependencies.forEach(dep => {
-            console.log(`  ${dep}`);
-          });
-        }
+      const projectAliases = await PathAliasService.load(process.cwd());
+      const dependencies = moduleGraphService.getPackageImports(
+        componentContent,
+        mainComponentFile,
+        (specifier) => !!projectAliases?.matches(specifier)
+      );
+      if (dependencies.length > 0) {
+        console.log(chalk.blue('\nDependencies found in component:'));
+        dependencies.forEach(dep => {
+          console.log(`  ${dep}`);
+        });
       }
 
       // Usage example
@@ -365,208 +490,213 @@ async function showComponentInfo(componentPath: string, version?: string): Promi
   }
 }
 
-// Install dependencies for a specific component
-async function installComponentDependencies(componentPath: string, packageManager: string): Promise<void> {
+/**
+ * Install the npm packages imported anywhere in the downloaded closure (components and shared
+ * files) at the ranges the upstream package.json declares. Packages the project already has in a
+ * matching version are skipped; incompatible versions are reported instead of installed. They go
+ * to the workspace package owning `outputDir`, using the package manager the project uses.
+ */
+async function installComponentDependencies(
+  result: DownloadResult,
+  gitService: GitService,
+  outputDir: string,
+  options: DownloadOptions
+): Promise<void> {
   try {
-    // Look for package.json or component metadata
-    const packageJsonPath = path.join(componentPath, 'package.json');
-    let dependencies: Map<string, string> = new Map();
-    let peerDependencies: Map<string, string> = new Map();
+    const packageManagerService = new PackageManagerService();
+    const target = await packageManagerService.findInstallTarget(outputDir);
+    const manager = await packageManagerService.detect(target, options.packageManager);
+
+    const requirements = await gitService.collectPackageRequirements(result, outputDir, target.packageDir);
+    const packages = await new PackageResolutionService(target.packageDir).resolve(requirements);
+    if (packages.length === 0) {
+      logger.info(chalk.yellow('No npm packages are imported by the downloaded files.'));
+      return;
+    }
 
-    if (await fs.pathExists(packageJsonPath)) {
-      const packageJson = await fs.readJson(packageJsonPath);
-      
-      if (packageJson.dependencies) {
-        Object.entries(packageJson.dependencies).forEach(([name, version]) => {
-          dependencies.set(name, version as string);
-        });
-      }
+    logger.info(chalk.blue(`\n📦 npm packages used by the downloaded files:`));
+    formatPackages(packages, target.library).forEach(line => logger.info(line));
 
-      if (packageJson.peerDependencies) {
-        Object.entries(packageJson.peerDependencies).forEach(([name, version]) => {
-          peerDependencies.set(name, version as string);
-        });
-      }
-    } else {
-      // Try to extract dependencies from the component files
-      const extractedDeps = await extractDependenciesFromFiles(componentPath);
-      extractedDeps.forEach(dep => dependencies.set(dep, 'latest'));
+    const conflicts = packages.filter(pkg => pkg.action === 'conflict');
+    if (conflicts.length > 0) {
+      console.warn(chalk.yellow(`\n⚠️  ${conflicts.length} package(s) are installed or declared in a version upstream does not support; they were left as they are.`));
     }
 
-    const totalDeps = dependencies.size + peerDependencies.size;
-
-    if (totalDeps === 0) {
-      console.log(chalk.yellow('No dependencies found for this component.'));
+    const toInstall = packages.filter(pkg => pkg.action === 'install')
+      .map(pkg => ({ name: pkg.name, spec: pkg.spec!, range: pkg.range, peer: pkg.peer }));
+    if (toInstall.length === 0) {
+      logger.info(chalk.green('All other packages are already in the project.'));
       return;
     }
 
-    console.log(chalk.blue(`\n📦 Found ${totalDeps} dependencies:`));
-    
-    if (dependencies.size > 0) {
-      console.log(chalk.blue('Dependencies:'));
-      Array.from(dependencies.entries()).forEach(([name, version]) => {
-        console.log(chalk.dim(`  ${name}@${version}`));
-      });
+    const workspace = target.workspaceRoot && target.workspaceRoot !== target.packageDir
+      ? ` in workspace package ${target.packageName || path.relative(target.workspaceRoot, target.packageDir)}`
+      : '';
+    const managerLabel = `${manager.name}${manager.berry ? ' (berry)' : ''}`;
+    logger.info(chalk.dim(`\nUsing ${managerLabel}, detected from ${manager.detectedFrom}${workspace}.`));
+    const install = options.install !== false;
+
+    if (options.writePackageJson) {
+      const writable = toInstall.filter(pkg => pkg.range);
+      const unversioned = toInstall.filter(pkg => !pkg.range).map(pkg => pkg.name);
+      const packageJsonPath = path.relative(process.cwd(), path.join(target.packageDir, 'package.json')) || 'package.json';
+      if (unversioned.length > 0) {
+        console.warn(chalk.yellow(`⚠️  Upstream declares no version for ${unversioned.join(', ')}; add ${unversioned.length === 1 ? 'it' : 'them'} to package.json yourself.`));
+      }
+      if (writable.length === 0 || !await confirm(`Add ${writable.length} package(s) to ${packageJsonPath}?`, true)) {
+        logger.info(chalk.yellow('package.json was left unchanged.'));
+        return;
+      }
+
+      await packageManagerService.writePackageJson(target, writable);
+      logger.info(chalk.green(`✓ Added ${writable.map(pkg => pkg.name).join(', ')} to ${packageJsonPath}`));
+      if (install) {
+        await runPackageManager([packageManagerService.getInstallCommand(manager, target)], packageManagerService);
+      }
+      return;
     }
 
-    if (peerDependencies.size > 0) {
-      console.log(chalk.blue('Peer Dependencies:'));
-      Array.from(peerDependencies.entries()).forEach(([name, version]) => {
-        console.log(chalk.dim(`  ${name}@${version}`));
-      });
+    const commands = packageManagerService.getAddCommands(manager, target, toInstall);
+    if (!install) {
+      logger.info(chalk.yellow('Not installing (--no-install). To install them run:'));
+      commands.forEach(command => logger.info(`  ${formatCommand(command)}`));
+      return;
     }
 
     // Ask for confirmation
-    const { shouldInstall } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'shouldInstall',
-        message: `Install ${totalDeps} dependencies using ${packageManager}?`,
-        default: true
-      }
-    ]);
-
-    if (!shouldInstall) {
-      console.log(chalk.yellow('Dependency installation cancelled.'));
+    if (!await confirm(`Install ${toInstall.length} package(s) using ${manager.name}?`, true)) {
+      logger.info(chalk.yellow('Dependency installation cancelled.'));
       return;
     }
 
-    // Install dependencies
-    await installDependencies(dependencies, peerDependencies, packageManager);
-
+    await runPackageManager(commands, packageManagerService);
   } catch (error) {
     console.warn(chalk.yellow(`Warning: Could not install dependencies: ${error}`));
   }
 }
 
-async function extractDependenciesFromFiles(componentPath: string): Promise<string[]> {
+/** One line per package: the action, what is installed or would be, and why */
+function formatPackages(packages: PackageResolution[], library: boolean): string[] {
+  const colors: Record<PackageAction, (text: string) => string> = {
+    install: chalk.green,
+    satisfied: chalk.dim,
+    conflict: chalk.red
+  };
+  return packages.map(pkg => {
+    const label = pkg.spec || `${pkg.name}${pkg.current ? chalk.dim(` ${pkg.current}`) : ''}`;
+    const peer = pkg.peer && library ? chalk.dim(' (peer)') : '';
+    const reason = pkg.reason ? chalk.dim(` (${pkg.reason})`) : '';
+    return `  ${colors[pkg.action](pkg.action.padEnd(9))} ${label}${peer}${reason}`;
+  });
+}
+
+async function runPackageManager(commands: PackageCommand[], packageManagerService: PackageManagerService): Promise<void> {
+  logger.info(chalk.blue(`\n🔧 Installing dependencies with ${commands[0].command}...\n`));
   try {
-    const files = await fs.readdir(componentPath);
-    const dependencies = new Set<string>();
-
-    for (const file of files) {
-      if (file.endsWith('.tsx') || file.endsWith('.ts')) {
-        const content = await fs.readFile(path.join(componentPath, file), 'utf8');
-        const importMatches = content.match(/import\s+.*?\s+from\s+['"]([^'"]+)['"]/g);
-        
-        if (importMatches) {
-          importMatches.forEach(match => {
-            const dep = match.match(/from\s+['"]([^'"]+)['"]/)?.[1];
-            if (dep && !dep.startsWith('.') && !dep.startsWith('/')) {
-              // Extract package name (handle scoped packages)
-              const packageName = dep.startsWith('@') ? dep.split('/').slice(0, 2).join('/') : dep.split('/')[0];
-              dependencies.add(packageName);
-            }
-          });
-        }
-      }
+    for (const command of commands) {
+      logger.info(chalk.dim(`$ ${formatCommand(command)}`));
+      // Keep stdout free for --json output
+      await packageManagerService.run(command, logger.isSilent() ? process.stderr : 'inherit');
     }
-
-    return Array.from(dependencies);
+    logger.info(chalk.green('\n✅ Dependencies installed successfully!'));
   } catch (error) {
-    return [];
+    logger.info(chalk.red('\n❌ Failed to install dependencies.'));
+    throw error;
   }
 }
 
-// Helper function to install dependencies using the specified package manager
-async function installDependencies(
-  dependencies: Map<string, string>,
-  peerDependencies: Map<string, string>,
-  packageManager: string
-): Promise<void> {
-  const { spawn } = await import('child_process');
-
-  const allDeps = new Map([...dependencies, ...peerDependencies]);
-  const depsList = Array.from(allDeps.entries()).map(([name, version]) => 
-    version === 'latest' || version === '*' ? name : `${name}@${version}`
-  );
-
-  if (depsList.length === 0) {
-    return;
-  }
-
-  console.log(chalk.blue(`\n🔧 Installing dependencies with ${packageManager}...\n`));
-
-  let installCommand: string;
-  let installArgs: string[];
-
-  switch (packageManager) {
-    case 'pnpm':
-      installCommand = 'pnpm';
-      installArgs = ['add', ...depsList];
-      break;
-    case 'yarn':
-      installCommand = 'yarn';
-      installArgs = ['add', ...depsList];
-      break;
-    case 'npm':
-    default:
-      installCommand = 'npm';
-      installArgs = ['install', ...depsList];
-      break;
-  }
-
-  return new Promise<void>((resolve, reject) => {
-    const child = spawn(installCommand, installArgs, {
-      stdio: 'inherit',
-      shell: true
-    });
-
-    child.on('close', (code) => {
-      if (code === 0) {
-        console.log(chalk.green('\n✅ Dependencies installed successfully!'));
-        resolve();
-      } else {
-        console.log(chalk.red('\n❌ Failed to install dependencies.'));
-        reject(new Error(`${packageManager} install failed with code ${code}`));
-      }
-    });
+function formatCommand({ command, args, cwd }: PackageCommand): string {
+  const relativeCwd = path.relative(process.cwd(), cwd);
+  const quoted = args.map(arg => /[\s<>|^&*]/.test(arg) ? `"${arg}"` : arg);
+  return `${relativeCwd ? `(cd ${relativeCwd} && ` : ''}${[command, ...quoted].join(' ')}${relativeCwd ? ')' : ''}`;
+}
 
-    child.on('error', (error) => {
-      console.log(chalk.red('\n❌ Failed to install dependencies:'), error.message);
-      reject(error);
+/** Record the downloaded closure (components, shared files, commit and hashes) in the project manifest */
+async function recordManifest(
+  componentName: string,
+  result: DownloadResult,
+  sources: ComponentSourceService,
+  outputDir: string,
+  lockedHashes?: Record<string, string>
+): Promise<void> {
+  try {
+    const manifestManager = new ManifestManager();
+    await manifestManager.recordDownload(componentName, result, {
+      repositoryUrl: sources.get().repositoryUrl,
+      outputDir,
+      lockedHashes,
+      filePolicy: sources.filePolicy.rules
     });
-  });
-} 
-
-// Helper functions placed outside of downloadCommand
+    logger.info(chalk.dim(`   Recorded ${result.components.length} component(s) at ${result.commit.slice(0, 7)} in ${path.basename(manifestManager.path)}`));
+  } catch (error) {
+    console.warn(chalk.yellow(`Warning: Could not update manifest: ${error}`));
+  }
+}
 
-async function downloadSuggested(
-  suggestion: string,
-  gitService: GitService,
+/**
+ * Download into a temporary staging directory (imports rewritten for the real output directory)
+ * and compare the result with the project. Nothing in the project is written.
+ */
+async function planDownload(
+  component: SourceComponentName,
+  sources: ComponentSourceService,
   targetVersion: string | undefined,
   outputDir: string,
   options: DownloadOptions
-): Promise<void> {
-  console.log(chalk.blue(`\n📦 Downloading ${suggestion}${targetVersion ? `@${targetVersion}` : ''} and dependencies...\n`));
+): Promise<DownloadPlan> {
+  const stagingRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-plan-'));
 
   try {
-    const extractedPath = await gitService.downloadComponent(
-      suggestion,
-      targetVersion,
-      outputDir
-    );
-
-    console.log(chalk.green(`\n✅ ${suggestion}${targetVersion ? `@${targetVersion}` : ''} and all dependencies downloaded successfully!`));
-    console.log(chalk.dim(`   Main component location: ${extractedPath}`));
+    const stagedOutputDir = path.join(stagingRoot, path.basename(path.resolve(outputDir)));
+    const gitService = sources.get(component.source);
+    const result = await gitService.downloadComponent(component.name, targetVersion, stagedOutputDir, path.resolve(outputDir));
+
+    // Packages are resolved as installComponentDependencies would, at the upstream ranges
+    const { packageDir } = await new PackageManagerService().findInstallTarget(outputDir);
+    const requirements = await gitService.collectPackageRequirements(result, stagedOutputDir, packageDir);
+    const packages = await new PackageResolutionService(packageDir).resolve(requirements);
+
+    const manifest = await new ManifestManager().load();
+    return await new DownloadPlanService().createPlan(formatComponentName(component.name, component.source), result, stagedOutputDir, outputDir, manifest, packages);
+  } finally {
+    await fs.remove(stagingRoot);
+  }
+}
 
-    if (options.tests === false) {
-      await removeTestFiles(outputDir);
-    }
+function printDownloadPlan(plan: DownloadPlan): void {
+  const colors: Record<PlannedFileAction, (text: string) => string> = {
+    create: chalk.green,
+    overwrite: chalk.blue,
+    unchanged: chalk.dim,
+    conflict: chalk.red
+  };
+
+  console.log(chalk.blue(`\n📋 Download plan for ${plan.component}${plan.ref ? `@${plan.ref}` : ''} (${plan.commit.slice(0, 7)})`));
+  console.log(`  Components: ${plan.components.join(', ')}`);
+
+  console.log(chalk.blue('\nFiles:'));
+  plan.files.forEach(file => {
+    const details = [file.shared ? 'shared' : '', file.reason || ''].filter(Boolean).join(', ');
+    console.log(`  ${colors[file.action](file.action.padEnd(9))} ${file.path}${details ? chalk.dim(` (${details})`) : ''}`);
+  });
 
-    if (!options.includeStories) {
-      await removeStoryFiles(outputDir);
-    }
+  if (plan.excludedFiles.length > 0) {
+    console.log(chalk.blue('\nLeft out by the file policy:'));
+    plan.excludedFiles.forEach(file => console.log(chalk.dim(`  ${file}`)));
+  }
 
-    await showComponentInfo(extractedPath, targetVersion);
+  if (plan.packages.length > 0) {
+    console.log(chalk.blue('\nnpm packages:'));
+    formatPackages(plan.packages, false).forEach(line => console.log(line));
+  }
 
-    if (options.installDeps) {
-      await installComponentDependencies(extractedPath, options.packageManager || 'pnpm');
-    }
+  const count = (action: PlannedFileAction) => plan.files.filter(file => file.action === action).length;
+  console.log(chalk.dim(`\n${count('create')} to create, ${count('overwrite')} to overwrite, ${count('unchanged')} unchanged, ${count('conflict')} conflict(s)`));
 
-  } catch (err) {
-    console.error(chalk.red(`Failed to download ${suggestion}: ${err}`));
+  if (count('conflict') > 0) {
+    console.log(chalk.yellow('⚠️  Files with local changes will ask whether to keep them (see --on-conflict). Check them with "mui-bueno diff" before downloading.'));
   }
+  console.log(chalk.dim('Dry run: nothing was written.'));
 }
 
 /** Generate component suggestions given available names */
@@ -1,65 +1,90 @@
+import fs from 'fs-extra';
 import chalk from 'chalk';
-import inquirer from 'inquirer';
 import { ConfigManager } from '../utils/config.js';
+import { logger } from '../utils/logger.js';
+import { ExitCode, exitWithError } from '../utils/errors.js';
+import { confirm, promptWithDefaults } from '../utils/interaction.js';
+import { TOKEN_ENV, hasEmbeddedCredentials } from '../utils/git-auth.js';
+import { getLocalRepositoryPath } from '../utils/repository-cache.js';
 import { GitService } from '../services/git/git-service.js';
 import { GitConfig } from '../types/index.js';
 
 interface InitOptions {
   installDeps?: boolean;
   packageManager?: string;
+  json?: boolean;
 }
 
 export async function initCommand(options: InitOptions = {}): Promise<void> {
-  console.log(chalk.blue('🚀 Initializing MUI Bueno CLI...\n'));
+  logger.setSilent(!!options.json);
+  logger.info(chalk.blue('🚀 Initializing MUI Bueno CLI...\n'));
 
-  const configManager = new ConfigManager();
-  const hasConfig = await configManager.exists();
+  try {
+    const configManager = new ConfigManager();
+    const hasConfig = await configManager.exists();
 
-  if (!hasConfig) {
-    console.log(chalk.yellow('No configuration found. Let\'s set it up!\n'));
-    await setupConfiguration(configManager);
-  } else {
-    console.log(chalk.green('✓ Configuration already exists.'));
-    
-    const { reconfigure } = await inquirer.prompt([
-      {
-        type: 'confirm',
-        name: 'reconfigure',
-        message: 'Would you like to reconfigure?',
-        default: false
-      }
-    ]);
-
-    if (reconfigure) {
+    if (!hasConfig) {
+      logger.info(chalk.yellow('No configuration found. Let\'s set it up!\n'));
       await setupConfiguration(configManager);
+    } else {
+      logger.info(chalk.green('✓ Configuration already exists.'));
+
+      if (await confirm('Would you like to reconfigure?', false)) {
+        await setupConfiguration(configManager);
+      }
     }
-  }
 
-  // Test git connection
-  const config = await configManager.load();
-  const gitService = new GitService(config.git, config.cacheDir);
+    // Test git connection
+    const config = await configManager.load();
+    const gitService = new GitService(config.git, config.cacheDir, {
+      lockTimeout: config.cacheLockTimeout,
+      fetchTtl: config.fetchTtl,
+      clone: config.clone
+    });
   
-  console.log(chalk.blue('\n🔐 Testing SSH connection to repository...'));
-  const isConnected = await gitService.testConnection();
+    const https = /^https?:\/\//i.test(config.git.repositoryUrl);
+    const local = getLocalRepositoryPath(config.git.repositoryUrl) !== null;
+    const transport = local ? 'local' : https ? 'HTTPS' : 'SSH';
+    logger.info(chalk.blue(`\n🔐 Testing ${transport} connection to repository...`));
+    const isConnected = await gitService.testConnection();
 
-  if (isConnected) {
-    console.log(chalk.green('✓ SSH connection successful!'));
-  } else {
-    console.log(chalk.red('❌ SSH connection failed.'));
-    console.log(chalk.yellow('Please ensure you have SSH access to the repository.'));
-    console.log(chalk.yellow('Run "ssh -T git@bitbucket.org" to test your SSH connection.'));
-    console.log(chalk.yellow('Make sure your SSH key is added to your GitHub account.'));
-  }
+    if (isConnected) {
+      logger.info(chalk.green(`✓ ${transport} connection successful!`));
+    } else if (local) {
+      logger.info(chalk.red('❌ Local repository not found.'));
+      logger.info(chalk.yellow('The repository URL must be the path of a git repository, with or without a working tree.'));
+      process.exitCode = ExitCode.NotFound;
+    } else if (https) {
+      logger.info(chalk.red('❌ HTTPS connection failed.'));
+      logger.info(chalk.yellow(`Set ${TOKEN_ENV} to an access token for the repository,`));
+      logger.info(chalk.yellow('or set "credentialHelper" in the git config to a credential helper that has one.'));
+      process.exitCode = ExitCode.AuthFailure;
+    } else {
+      logger.info(chalk.red('❌ SSH connection failed.'));
+      logger.info(chalk.yellow('Please ensure you have SSH access to the repository.'));
+      logger.info(chalk.yellow('Run "ssh -T git@bitbucket.org" to test your SSH connection.'));
+      logger.info(chalk.yellow('Make sure your SSH key is added to your GitHub account.'));
+      process.exitCode = ExitCode.AuthFailure;
+    }
 
-  console.log(chalk.green('\n✨ MUI Bueno CLI is ready to use!'));
-  console.log(chalk.dim('\nNext steps:'));
-  console.log(chalk.dim('  • Run "mui-bueno download <component>" to download components'));
+    if (options.json) {
+      console.log(JSON.stringify({ config, connected: isConnected }, null, 2));
+      return;
+    }
+
+    logger.info(chalk.green('\n✨ MUI Bueno CLI is ready to use!'));
+    logger.info(chalk.dim('\nNext steps:'));
+    logger.info(chalk.dim('  • Run "mui-bueno download <component>" to download components'));
+  } catch (error) {
+    exitWithError(error, options.json);
+  }
 }
 
 async function setupConfiguration(configManager: ConfigManager): Promise<void> {
-  console.log(chalk.blue('Git Repository Configuration:\n'));
+  logger.info(chalk.blue('Git Repository Configuration:\n'));
 
-  const answers = await inquirer.prompt([
+  // Non-interactive runs take the defaults
+  const answers = await promptWithDefaults([
     {
       type: 'input',
       name: 'repositoryUrl',
@@ -67,8 +92,15 @@ async function setupConfiguration(configManager: ConfigManager): Promise<void> {
       default: 'git@bitbucket.org:obp-dashboard/mui-bueno-v2.git',
       validate: (input) => {
         if (!input.trim()) return 'Repository URL is required';
+        const localPath = getLocalRepositoryPath(input);
+        if (localPath) {
+          return fs.pathExistsSync(localPath) || `${localPath} does not exist`;
+        }
         if (!input.includes('git@') && !input.includes('https://')) {
-          return 'Please provide a valid git URL (SSH or HTTPS)';
+          return 'Please provide a valid git URL (SSH or HTTPS) or the path of a local repository';
+        }
+        if (hasEmbeddedCredentials(input)) {
+          return `Leave credentials out of the URL; set ${TOKEN_ENV} instead`;
         }
         return true;
       }
@@ -88,7 +120,7 @@ async function setupConfiguration(configManager: ConfigManager): Promise<void> {
     }
   ]);
 
-  const generalAnswers = await inquirer.prompt([
+  const generalAnswers = await promptWithDefaults([
     {
       type: 'input',
       name: 'author',
@@ -100,6 +132,16 @@ async function setupConfiguration(configManager: ConfigManager): Promise<void> {
       name: 'defaultDownloadPath',
       message: 'Default download path:',
       default: './components'
+    },
+    {
+      type: 'list',
+      name: 'importStyle',
+      message: 'How should upstream alias imports (e.g. @/components/...) be rewritten?',
+      choices: [
+        { name: 'Relative paths', value: 'relative' },
+        { name: 'This project\'s tsconfig path aliases', value: 'alias' }
+      ],
+      default: 'relative'
     }
   ]);
 
@@ -114,10 +156,11 @@ async function setupConfiguration(configManager: ConfigManager): Promise<void> {
     git: gitConfig,
     author: generalAnswers.author,
     defaultDownloadPath: generalAnswers.defaultDownloadPath,
+    importStyle: generalAnswers.importStyle,
     workspace: process.cwd(),
     cacheDir: require('path').join(require('os').homedir(), '.mui-bueno-cache')
   };
 
   await configManager.save(config);
-  console.log(chalk.green('\n✓ Configuration saved successfully!'));
+  logger.info(chalk.green('\n✓ Configuration saved successfully!'));
 } 
\ No newline at end of file
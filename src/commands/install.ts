@@ -0,0 +1,214 @@
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../utils/config.js';
+import { ManifestManager, listFiles, toPosix, verifyLock } from '../utils/manifest.js';
+import { logger } from '../utils/logger.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { GitService } from '../services/git/git-service.js';
+import { StagingService } from '../services/git/staging.service.js';
+import { PackageManagerService } from '../services/git/package-manager.service.js';
+import { describeVersionMismatches } from '../services/git/package-resolution.service.js';
+import { DEFAULT_SOURCE, formatComponentName, getManifestSourceUrls } from '../utils/sources.js';
+import { DownloadResult, FilePolicyConfig, LockedComponent, ProjectManifest } from '../types/index.js';
+
+interface InstallOptions {
+  keepGoing?: boolean;
+  allowVersionMismatch?: boolean;
+  json?: boolean;
+}
+
+export async function installCommand(options: InstallOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
+  const spinner = ora('Reading manifest...').start();
+
+  try {
+    const manifestManager = new ManifestManager();
+    const manifest = await manifestManager.load();
+
+    if (!manifest) {
+      spinner.fail(`No ${path.basename(manifestManager.path)} found in ${process.cwd()}`);
+      throw new CliError('Run "mui-bueno download <component>" first to create one.', ExitCode.NotFound);
+    }
+
+    const topLevel = Object.keys(manifest.components);
+    if (topLevel.length === 0) {
+      spinner.succeed('Manifest lists no components. Nothing to install.');
+      if (options.json) {
+        console.log(JSON.stringify({ components: [], sharedFiles: [] }, null, 2));
+      }
+      return;
+    }
+
+    const missingLocks = topLevel.filter(name => !manifest.lock.components[name]);
+    if (missingLocks.length > 0) {
+      spinner.fail('Manifest and lock are out of sync');
+      throw new CliError(
+        missingLocks.map(name => `${name} has no lock entry`).join('\n'),
+        ExitCode.InvalidConfig,
+        { missingLocks }
+      );
+    }
+
+    const configManager = new ConfigManager();
+    const config = await configManager.load();
+    if (config.git.repositoryUrl !== manifest.repositoryUrl) {
+      logger.info(chalk.yellow(`\nUsing repository from manifest: ${manifest.repositoryUrl}`));
+    }
+    const sources = new ComponentSourceService(config, {
+      importStyle: config.importStyle,
+      keepGoing: options.keepGoing,
+      repositoryUrls: getManifestSourceUrls(manifest)
+    });
+
+    spinner.text = 'Testing SSH connection to repository...';
+    const usedSources = new Set(Object.values(manifest.lock.components).map(locked => locked.source || DEFAULT_SOURCE));
+    for (const source of usedSources) {
+      if (!await sources.get(source).testConnection()) {
+        spinner.fail(`Failed to connect to the git repository of source ${source}`);
+        throw new CliError('Please ensure you have SSH access to the repository and try again.', ExitCode.AuthFailure);
+      }
+    }
+
+    const outputDir = path.resolve(manifest.componentsDir);
+    const installedAt = new Map<string, string>();
+    const { packageDir } = await new PackageManagerService().findInstallTarget(outputDir);
+
+    spinner.stop();
+
+    // Every pass is staged together and only moved into the project once the whole lock verifies;
+    // with --keep-going files are written directly, as a best effort
+    const staging = new StagingService(outputDir);
+    try {
+      const stagedOutputDir = options.keepGoing ? outputDir : await staging.prepare();
+      const results: DownloadResult[] = [];
+      const install = async (name: string, locked: LockedComponent): Promise<DownloadResult> => {
+        const gitService = sources.withFilePolicy(locked.filePolicy).get(locked.source);
+        logger.info(chalk.blue(`\n📦 Installing ${formatComponentName(name, locked.source)}@${locked.commit.slice(0, 7)}...\n`));
+        const result = await gitService.downloadComponent(name, locked.commit, stagedOutputDir, outputDir);
+        await checkVersionCompatibility(gitService, result, stagedOutputDir, packageDir, options);
+        results.push(result);
+        return result;
+      };
+
+      // Install every requested component at its pinned commit and by the globs it was copied with;
+      // this also brings in its dependencies
+      for (const name of topLevel) {
+        const locked = manifest.lock.components[name];
+        const result = await install(name, locked);
+        result.components.forEach(component => installedAt.set(component.name, installKey(component.commit || result.commit, locked.filePolicy)));
+      }
+
+      // Dependencies that were locked at a different commit or file policy than their parent (or come from another source) get their own pass
+      for (const [name, locked] of Object.entries(manifest.lock.components)) {
+        if (installedAt.get(name) !== installKey(locked.commit, locked.filePolicy)) {
+          await install(name, locked);
+          installedAt.set(name, installKey(locked.commit, locked.filePolicy));
+        }
+      }
+
+      const verifySpinner = ora('Verifying file hashes...').start();
+      if (!options.keepGoing) {
+        await pruneUnlockedFiles(manifest, stagedOutputDir);
+      }
+      const drift = await verifyLock(manifest, process.cwd(), stagedOutputDir);
+
+      if (drift.length > 0) {
+        verifySpinner.fail(`Installed files do not match ${path.basename(manifestManager.path)}`);
+        throw new CliError(
+          [
+            ...drift.map(entry => `  ${entry.reason.padEnd(8)} ${entry.path}${entry.component ? ` (${entry.component})` : ''}`),
+            'The lock no longer reproduces. Re-run "mui-bueno download" for the affected components to refresh it.'
+          ].join('\n'),
+          ExitCode.Conflict,
+          { drift }
+        );
+      }
+
+      if (!options.keepGoing) {
+        for (const result of results) {
+          await staging.validate(result);
+        }
+        await staging.commit();
+      }
+
+      const componentCount = Object.keys(manifest.lock.components).length;
+      const sharedCount = Object.keys(manifest.lock.sharedFiles).length;
+      verifySpinner.succeed(`Installed ${componentCount} component(s) and ${sharedCount} shared file(s) from ${path.basename(manifestManager.path)}`);
+    } finally {
+      await staging.discard();
+    }
+
+    if (options.json) {
+      console.log(JSON.stringify({
+        components: Object.entries(manifest.lock.components).map(([name, locked]) => ({ name, source: locked.source || DEFAULT_SOURCE, commit: locked.commit })),
+        sharedFiles: Object.keys(manifest.lock.sharedFiles)
+      }, null, 2));
+    }
+  } catch (error) {
+    if (!(error instanceof CliError)) {
+      spinner.fail('Install failed');
+    }
+    exitWithError(error, options.json);
+  }
+}
+
+/**
+ * Refuse to install components written against other major versions of MUI, React or emotion
+ * than the project has, before anything is copied. Never prompts; --allow-version-mismatch
+ * turns the error into a warning.
+ */
+async function checkVersionCompatibility(
+  gitService: GitService,
+  result: DownloadResult,
+  stagedOutputDir: string,
+  packageDir: string,
+  options: InstallOptions
+): Promise<void> {
+  const mismatches = await gitService.findVersionMismatches(result, stagedOutputDir, packageDir);
+  if (mismatches.length === 0) {
+    return;
+  }
+
+  if (options.allowVersionMismatch) {
+    console.warn(chalk.yellow('\n⚠️  The project has other major versions than upstream of:'));
+    describeVersionMismatches(mismatches).forEach(line => console.warn(chalk.yellow(`  ${line}`)));
+    return;
+  }
+
+  throw new CliError(
+    [
+      'The project has other major versions than upstream of:',
+      ...describeVersionMismatches(mismatches).map(line => `  ${line}`),
+      'Pass --allow-version-mismatch to install anyway.'
+    ].join('\n'),
+    ExitCode.Conflict,
+    { mismatches }
+  );
+}
+
+/** What a component was installed as: the commit and the globs its files were copied with */
+function installKey(commit: string, filePolicy: FilePolicyConfig = {}): string {
+  return `${commit} ${JSON.stringify(filePolicy)}`;
+}
+
+/**
+ * Remove staged files the lock does not list, e.g. files a dependency's pass copied by its
+ * parent's file policy. Only the staging directory is pruned, never files in the project.
+ */
+async function pruneUnlockedFiles(manifest: ProjectManifest, stagedOutputDir: string): Promise<void> {
+  for (const [name, locked] of Object.entries(manifest.lock.components)) {
+    const componentDir = path.join(stagedOutputDir, ...name.split('/'));
+    if (!await fs.pathExists(componentDir)) {
+      continue;
+    }
+
+    for (const file of await listFiles(componentDir)) {
+      if (!(toPosix(path.relative(componentDir, file)) in locked.files)) {
+        await fs.remove(file);
+      }
+    }
+  }
+}
@@ -1,38 +1,55 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../utils/config.js';
-import { GitService } from '../services/git/git-service.js';
+import { logger } from '../utils/logger.js';
+import { exitWithError } from '../utils/errors.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { formatComponentName } from '../utils/sources.js';
 
 interface ListOptions {
   branch?: string;
+  /** Only this source's components */
+  source?: string;
   limit?: number;
+  json?: boolean;
 }
 
 export async function listCommand(options: ListOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
   const spinner = ora('Fetching components...').start();
   try {
     const configManager = new ConfigManager();
     const config = await configManager.load();
-    const gitService = new GitService(config.git, config.cacheDir);
+    const sources = new ComponentSourceService(config);
 
-    const components = await gitService.listComponents(options.branch);
+    const components = await sources.listComponents(options.branch, options.source);
 
     spinner.stop();
 
+    const list = options.limit ? components.slice(0, options.limit) : components;
+
+    if (options.json) {
+      console.log(JSON.stringify({ total: components.length, components: list }, null, 2));
+      return;
+    }
+
     if (components.length === 0) {
       console.log(chalk.yellow('No components found in the repository.'));
       return;
     }
 
-    const list = options.limit ? components.slice(0, options.limit) : components;
-
     console.log(chalk.blue(`Found ${components.length} component${components.length === 1 ? '' : 's'}${options.limit ? ` (showing ${list.length})` : ''}:\n`));
 
+    // With several sources the source is shown in a column of its own
+    const showSource = sources.names.length > 1;
+    const names = list.map(comp => formatComponentName(comp.name, comp.source));
+    const width = showSource ? Math.max(...names.map(name => name.length)) : 0;
     list.forEach((comp, idx) => {
-      console.log(`${chalk.dim(`${idx + 1}.`)} ${chalk.bold(comp.name)}`);
+      const source = showSource ? `  ${chalk.dim(comp.source)}` : '';
+      console.log(`${chalk.dim(`${idx + 1}.`)} ${chalk.bold(names[idx].padEnd(width))}${source}`);
     });
   } catch (error) {
     spinner.fail('Failed to list components');
-    console.error(error);
+    exitWithError(error, options.json);
   }
 } 
\ No newline at end of file
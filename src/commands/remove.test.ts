@@ -0,0 +1,155 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { removeCommand } from './remove.js';
+import { ManifestManager, computeChecksum, hashDirectory, hashFile } from '../utils/manifest.js';
+import { configureInteraction } from '../utils/interaction.js';
+import { ProjectManifest } from '../types/index.js';
+
+interface RemovalOutput {
+  components: string[];
+  sharedFiles: string[];
+  files: string[];
+  localChanges: string[];
+  importers: { file: string; specifier: string }[];
+  removed: boolean;
+}
+
+interface ErrorOutput {
+  error: { code: string; message: string; dependents?: string[]; localChanges?: string[] };
+}
+
+describe('removeCommand', () => {
+  const originalCwd = process.cwd();
+  let project: string;
+  let output: string[];
+
+  /** Lock `name` with the files on disk, as a download would */
+  const lockComponent = async (manifest: ProjectManifest, name: string, dependencies: string[], sharedFiles: string[] = []) => {
+    const files = await hashDirectory(path.join(project, 'src', 'components', ...name.split('/')));
+    manifest.lock.components[name] = { commit: 'c0ffee', checksum: computeChecksum(files), dependencies, sharedFiles, files };
+    for (const file of sharedFiles) {
+      manifest.lock.sharedFiles[file] = { commit: 'c0ffee', hash: await hashFile(path.join(project, 'src', ...file.split('/'))) };
+    }
+  };
+
+  const run = async (componentName: string, options: { force?: boolean; dryRun?: boolean } = {}) => {
+    output = [];
+    await removeCommand(componentName, { ...options, json: true });
+    return JSON.parse(output.join('\n'));
+  };
+
+  beforeEach(async () => {
+    project = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-remove-')));
+    const write = (file: string, content: string) => fs.outputFile(path.join(project, 'src', ...file.split('/')), content);
+
+    // Form and Dialog are requested; Form/Error, Button and Icon are only dependencies
+    await write('components/Form/Form.tsx', "import { Error } from './Error/Error';\nimport { Button } from '../Button/Button';");
+    await write('components/Form/Error/Error.tsx', "import { Button } from '../../Button/Button';");
+    await write('components/Dialog/Dialog.tsx', "import { Button } from '../Button/Button';\nimport { Icon } from '../Icon/Icon';");
+    await write('components/Button/Button.tsx', 'export const Button = 1;');
+    await write('components/Icon/Icon.tsx', 'export const Icon = 1;');
+    await write('common/theme.ts', 'export const theme = {};');
+    await write('common/validation.ts', 'export const validate = () => true;');
+    await write('App.tsx', "import { Dialog } from './components/Dialog/Dialog';");
+    await fs.writeJson(path.join(project, 'tsconfig.json'), { compilerOptions: { baseUrl: '.', paths: { '~/*': ['src/*'] } } });
+
+    const manifest: ProjectManifest = {
+      repositoryUrl: 'git@example.com:ui.git',
+      componentsDir: 'src/components',
+      components: { Form: 'main', Dialog: 'main' },
+      lock: { components: {}, sharedFiles: {} }
+    };
+    await lockComponent(manifest, 'Form', ['Button', 'Form/Error'], ['common/theme.ts', 'common/validation.ts']);
+    await lockComponent(manifest, 'Form/Error', ['Button']);
+    await lockComponent(manifest, 'Dialog', ['Button', 'Icon'], ['common/theme.ts']);
+    await lockComponent(manifest, 'Button', []);
+    await lockComponent(manifest, 'Icon', []);
+    // Form/Error's files are part of Form's directory, as downloads lay them out
+    delete manifest.lock.components.Form.files['Error/Error.tsx'];
+    await new ManifestManager(project).save(manifest);
+
+    process.chdir(project);
+    configureInteraction({ nonInteractive: true });
+    jest.spyOn(console, 'log').mockImplementation((...args: unknown[]) => {
+      output.push(args.join(' '));
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(process, 'exit').mockImplementation((code?: string | number | null) => {
+      throw new Error(`process.exit(${code})`);
+    });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    configureInteraction({});
+    process.chdir(originalCwd);
+    await fs.remove(project);
+  });
+
+  it('removes the component with the dependencies and shared files nothing else reaches', async () => {
+    const plan: RemovalOutput = await run('Form', { dryRun: true });
+
+    expect(plan.components).toEqual(['Form', 'Form/Error']);
+    expect(plan.sharedFiles).toEqual(['common/validation.ts']);
+    expect(plan.files).toEqual([
+      'src/common/validation.ts',
+      'src/components/Form/Error/Error.tsx',
+      'src/components/Form/Form.tsx'
+    ]);
+    expect(plan.localChanges).toEqual([]);
+    expect(plan.removed).toBe(false);
+  });
+
+  it('keeps a dependency while another requested component still reaches it', async () => {
+    // Button stays for Form; Icon was only reachable through Dialog
+    const plan: RemovalOutput = await run('Dialog', { dryRun: true, force: true });
+
+    expect(plan.components).toEqual(['Dialog', 'Icon']);
+    expect(plan.sharedFiles).toEqual([]);
+    expect(plan.importers).toEqual([{ file: 'src/App.tsx', specifier: './components/Dialog/Dialog' }]);
+  });
+
+  it('refuses to remove a component other components depend on', async () => {
+    await expect(run('Button', { dryRun: true })).rejects.toThrow('process.exit(4)');
+
+    const { error }: ErrorOutput = JSON.parse(output.join('\n'));
+    expect(error.code).toBe('Conflict');
+    expect(error.dependents?.sort()).toEqual(['Dialog', 'Form', 'Form/Error']);
+  });
+
+  it('finds project files importing the removal through a tsconfig alias', async () => {
+    await fs.outputFile(path.join(project, 'src', 'pages', 'Login.tsx'), "import { Form } from '~/components/Form/Form';");
+
+    const plan: RemovalOutput = await run('Form', { dryRun: true, force: true });
+
+    expect(plan.importers).toEqual([{ file: 'src/pages/Login.tsx', specifier: '~/components/Form/Form' }]);
+    await expect(run('Form', { dryRun: true })).rejects.toThrow('process.exit(4)');
+  });
+
+  it('requires --force to delete files with local changes when not interactive', async () => {
+    await fs.appendFile(path.join(project, 'src', 'components', 'Form', 'Form.tsx'), '\n// local edit');
+    await fs.outputFile(path.join(project, 'src', 'components', 'Form', 'Form.test.tsx'), 'test.todo("Form");');
+
+    await expect(run('Form')).rejects.toThrow('process.exit(4)');
+    const { error }: ErrorOutput = JSON.parse(output.join('\n'));
+    expect(error.localChanges).toEqual(['src/components/Form/Form.test.tsx', 'src/components/Form/Form.tsx']);
+    expect(await fs.pathExists(path.join(project, 'src', 'components', 'Form', 'Form.tsx'))).toBe(true);
+  });
+
+  it('deletes the files and their lock entries', async () => {
+    configureInteraction({ yes: true });
+
+    const result: RemovalOutput = await run('Form');
+
+    expect(result.removed).toBe(true);
+    expect(await fs.pathExists(path.join(project, 'src', 'components', 'Form'))).toBe(false);
+    expect(await fs.pathExists(path.join(project, 'src', 'common', 'validation.ts'))).toBe(false);
+    expect(await fs.pathExists(path.join(project, 'src', 'common', 'theme.ts'))).toBe(true);
+
+    const manifest = (await new ManifestManager(project).load())!;
+    expect(manifest.components).toEqual({ Dialog: 'main' });
+    expect(Object.keys(manifest.lock.components).sort()).toEqual(['Button', 'Dialog', 'Icon']);
+    expect(Object.keys(manifest.lock.sharedFiles)).toEqual(['common/theme.ts']);
+  });
+});
@@ -0,0 +1,322 @@
+import fs from 'fs-extra';
+import path from 'path';
+import chalk from 'chalk';
+import { ManifestManager, hashFile, listFiles, toPosix } from '../utils/manifest.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { confirm, isInteractive } from '../utils/interaction.js';
+import { ModuleGraphService, isRelativeSpecifier } from '../services/git/module-graph.service.js';
+import { PathAliasService } from '../services/git/path-alias.service.js';
+import { parseComponentName } from '../utils/sources.js';
+import { ProjectManifest } from '../types/index.js';
+
+interface RemoveOptions {
+  force?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+}
+
+interface RemovalPlan {
+  components: string[];
+  sharedFiles: string[];
+  files: string[];
+  /** Files to delete that differ from the lock or were never downloaded */
+  localChanges: string[];
+}
+
+const SOURCE_FILE = /\.(tsx?|jsx?|mjs|cjs)$/;
+const IGNORED_DIRS = new Set(['node_modules', '.git', 'dist', 'build', 'coverage', '.next']);
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+const moduleGraphService = new ModuleGraphService();
+
+export async function removeCommand(componentName: string, options: RemoveOptions = {}): Promise<void> {
+  try {
+    const manifestManager = new ManifestManager();
+    const manifest = await manifestManager.load();
+    // Components are recorded by name; a source prefix only tells where they came from
+    const { name } = parseComponentName(componentName);
+
+    if (!manifest || !manifest.lock.components[name]) {
+      throw new CliError(`Component "${componentName}" is not recorded in ${path.basename(manifestManager.path)}.`, ExitCode.NotFound);
+    }
+
+    const projectRoot = process.cwd();
+    const componentsDir = path.resolve(projectRoot, manifest.componentsDir);
+    const dependents = findDependents(manifest, name);
+
+    if (dependents.length > 0 && !options.force) {
+      throw new CliError(
+        `Cannot remove "${componentName}": still required by ${dependents.join(', ')}.\nRemove those components first or pass --force.`,
+        ExitCode.Conflict,
+        { dependents }
+      );
+    }
+
+    const plan = await planRemoval(manifest, name, componentsDir);
+    const removedFiles = new Set(plan.files);
+    const removedDirs = plan.components.map(name => path.join(componentsDir, ...name.split('/')));
+
+    const importers = (await findImporters(projectRoot, removedFiles, removedDirs))
+      .map(({ file, specifier }) => ({ file: toPosix(path.relative(projectRoot, file)), specifier }));
+    const toJson = (removed: boolean) => JSON.stringify({
+      component: componentName,
+      components: plan.components,
+      sharedFiles: plan.sharedFiles,
+      files: plan.files.map(file => toPosix(path.relative(projectRoot, file))),
+      localChanges: plan.localChanges.map(file => toPosix(path.relative(projectRoot, file))),
+      importers,
+      removed
+    }, null, 2);
+
+    if (!options.json) {
+      printPlan(plan, projectRoot);
+    }
+
+    if (importers.length > 0) {
+      const importerLines = importers.map(({ file, specifier }) => `  ${file} → ${specifier}`).join('\n');
+      if (!options.force) {
+        throw new CliError(
+          `These project files still import files that would be removed:\n${importerLines}\nUpdate those imports first or pass --force to remove anyway.`,
+          ExitCode.Conflict,
+          { importers }
+        );
+      }
+      console.warn(chalk.yellow(`\nThese project files still import files that would be removed:\n${importerLines}`));
+    }
+
+    if (options.dryRun) {
+      if (options.json) {
+        console.log(toJson(false));
+      } else {
+        console.log(chalk.dim('\nDry run: nothing was removed.'));
+      }
+      return;
+    }
+
+    if (plan.localChanges.length > 0 && !options.force) {
+      const message = `${plan.localChanges.length} file(s) to delete have local changes that would be lost.`;
+      if (!isInteractive()) {
+        throw new CliError(`${message}\nPass --force to remove anyway.`, ExitCode.Conflict, {
+          localChanges: plan.localChanges.map(file => toPosix(path.relative(projectRoot, file)))
+        });
+      }
+      if (!await confirm(`${message} Delete them anyway?`, false)) {
+        console.log(chalk.yellow('Remove cancelled.'));
+        return;
+      }
+    }
+
+    if (!await confirm(`Remove ${plan.components.length} component(s) and ${plan.sharedFiles.length} shared file(s)?`, false)) {
+      if (!isInteractive()) {
+        throw new CliError('Removal needs confirmation. Pass --yes to remove without a prompt.');
+      }
+      console.log(chalk.yellow('Remove cancelled.'));
+      return;
+    }
+
+    for (const file of plan.files) {
+      await fs.remove(file);
+    }
+    for (const dir of new Set(plan.files.map(file => path.dirname(file)))) {
+      await removeEmptyDirs(dir, path.dirname(componentsDir));
+    }
+
+    delete manifest.components[name];
+    plan.components.forEach(name => delete manifest.lock.components[name]);
+    plan.sharedFiles.forEach(file => delete manifest.lock.sharedFiles[file]);
+    await manifestManager.save(manifest);
+
+    if (options.json) {
+      console.log(toJson(true));
+      return;
+    }
+    console.log(chalk.green(`\n✅ Removed ${componentName}${plan.components.length > 1 ? ` and ${plan.components.length - 1} orphaned dependenc${plan.components.length === 2 ? 'y' : 'ies'}` : ''}.`));
+  } catch (error) {
+    exitWithError(error instanceof CliError ? error : `Failed to remove ${componentName}: ${error}`, options.json);
+  }
+}
+
+/** Installed components whose lock entry lists `componentName` as a dependency */
+function findDependents(manifest: ProjectManifest, componentName: string): string[] {
+  return Object.entries(manifest.lock.components)
+    .filter(([name, locked]) => name !== componentName && locked.dependencies.includes(componentName))
+    .map(([name]) => name);
+}
+
+/**
+ * Everything reachable from the remaining requested components is kept; the removed component and
+ * any component or shared file nothing else reaches any more are removed.
+ */
+async function planRemoval(manifest: ProjectManifest, componentName: string, componentsDir: string): Promise<RemovalPlan> {
+  const roots = Object.keys(manifest.components).filter(name => name !== componentName);
+  const kept = new Set<string>();
+  const queue = [...roots];
+
+  while (queue.length > 0) {
+    const name = queue.shift()!;
+    const locked = manifest.lock.components[name];
+    if (kept.has(name) || !locked) {
+      continue;
+    }
+    kept.add(name);
+    queue.push(...locked.dependencies);
+  }
+  // A component that is only a dependency is still kept while something else needs it
+  kept.delete(componentName);
+  findDependents(manifest, componentName).forEach(name => kept.add(name));
+
+  const components = Object.keys(manifest.lock.components).filter(name => !kept.has(name));
+  const keptShared = new Set(Array.from(kept).flatMap(name => manifest.lock.components[name]?.sharedFiles || []));
+  const sharedFiles = Object.keys(manifest.lock.sharedFiles).filter(file => !keptShared.has(file));
+
+  // Nested components share directories (e.g. Form and Form/Error), so never delete inside a kept one
+  const keptDirs = Array.from(kept).map(name => path.join(componentsDir, ...name.split('/')));
+  const isKept = (file: string) => keptDirs.some(dir => file.startsWith(dir + path.sep));
+
+  const files: string[] = [];
+  for (const name of components) {
+    const dir = path.join(componentsDir, ...name.split('/'));
+    if (await fs.pathExists(dir)) {
+      files.push(...(await listFiles(dir)).filter(file => !isKept(file)));
+    }
+  }
+
+  const sharedRoot = path.dirname(componentsDir);
+  for (const file of sharedFiles) {
+    const fullPath = path.join(sharedRoot, ...file.split('/'));
+    if (await fs.pathExists(fullPath)) {
+      files.push(fullPath);
+    }
+  }
+
+  const sortedFiles = Array.from(new Set(files)).sort();
+  return { components, sharedFiles, files: sortedFiles, localChanges: await findLocalChanges(manifest, components, sortedFiles, componentsDir) };
+}
+
+/** Files whose hash differs from the lock, or that the lock does not list at all (added locally) */
+async function findLocalChanges(manifest: ProjectManifest, components: string[], files: string[], componentsDir: string): Promise<string[]> {
+  const sharedRoot = path.dirname(componentsDir);
+  // The deepest component owns a file, e.g. Form/Error rather than Form
+  const owners = [...components].sort((a, b) => b.length - a.length);
+  const changed: string[] = [];
+
+  for (const file of files) {
+    const owner = owners.find(name => file.startsWith(path.join(componentsDir, ...name.split('/')) + path.sep));
+    const expected = owner
+      ? manifest.lock.components[owner].files[toPosix(path.relative(path.join(componentsDir, ...owner.split('/')), file))]
+      : manifest.lock.sharedFiles[toPosix(path.relative(sharedRoot, file))]?.hash;
+    if (!expected || await hashFile(file) !== expected) {
+      changed.push(file);
+    }
+  }
+
+  return changed;
+}
+
+/**
+ * Project source files (outside the removal set) with imports that resolve into it: relative
+ * imports and aliases from the `paths` of the nearest tsconfig.
+ */
+async function findImporters(
+  projectRoot: string,
+  removedFiles: Set<string>,
+  removedDirs: string[]
+): Promise<{ file: string; specifier: string }[]> {
+  const importers: { file: string; specifier: string }[] = [];
+
+  const resolvesIntoRemoval = (target: string): boolean => {
+    if (removedDirs.some(dir => target === dir || target.startsWith(dir + path.sep))) {
+      return true;
+    }
+    const candidates = [
+      target,
+      ...RESOLVE_EXTENSIONS.map(ext => target + ext),
+      ...RESOLVE_EXTENSIONS.map(ext => path.join(target, `index${ext}`))
+    ];
+    return candidates.some(candidate => removedFiles.has(candidate));
+  };
+
+  // Aliases by the directory of the tsconfig that applies
+  const aliases = new Map<string, PathAliasService | null>();
+  const loadAliases = async (dir: string): Promise<PathAliasService | null> => {
+    const configDir = await findTsconfigDir(dir, projectRoot);
+    if (!aliases.has(configDir)) {
+      aliases.set(configDir, await PathAliasService.load(configDir));
+    }
+    return aliases.get(configDir)!;
+  };
+
+  for (const file of await findSourceFiles(projectRoot)) {
+    if (removedFiles.has(file)) {
+      continue;
+    }
+
+    const content = await fs.readFile(file, 'utf-8');
+    const specifiers = new Set(moduleGraphService.parseImports(content, file).map(moduleImport => moduleImport.specifier));
+    for (const specifier of specifiers) {
+      const target = isRelativeSpecifier(specifier)
+        ? path.resolve(path.dirname(file), specifier)
+        : await (await loadAliases(path.dirname(file)))?.resolve(specifier);
+      if (target && resolvesIntoRemoval(target)) {
+        importers.push({ file, specifier });
+      }
+    }
+  }
+
+  return importers;
+}
+
+/** The directory of the tsconfig.json closest to `dir`, searching up to `projectRoot` */
+async function findTsconfigDir(dir: string, projectRoot: string): Promise<string> {
+  let current = dir;
+  while (current.startsWith(projectRoot + path.sep) && !await fs.pathExists(path.join(current, 'tsconfig.json'))) {
+    current = path.dirname(current);
+  }
+  return current.startsWith(projectRoot) ? current : projectRoot;
+}
+
+async function findSourceFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      if (!IGNORED_DIRS.has(entry.name) && !entry.name.startsWith('.')) {
+        files.push(...await findSourceFiles(fullPath));
+      }
+    } else if (entry.isFile() && SOURCE_FILE.test(entry.name)) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+async function removeEmptyDirs(dir: string, stopAt: string): Promise<void> {
+  let current = dir;
+  while (current.startsWith(stopAt + path.sep) && await fs.pathExists(current)) {
+    if ((await fs.readdir(current)).length > 0) {
+      return;
+    }
+    await fs.remove(current);
+    current = path.dirname(current);
+  }
+}
+
+function printPlan(plan: RemovalPlan, projectRoot: string): void {
+  console.log(chalk.blue('Components to remove:'));
+  plan.components.forEach(name => console.log(`  ${name}`));
+
+  if (plan.sharedFiles.length > 0) {
+    console.log(chalk.blue('\nShared files to remove:'));
+    plan.sharedFiles.forEach(file => console.log(`  ${file}`));
+  }
+
+  if (plan.localChanges.length > 0) {
+    console.log(chalk.yellow('\nLocally changed files that will be lost:'));
+    plan.localChanges.forEach(file => console.log(`  ${toPosix(path.relative(projectRoot, file))}`));
+  }
+
+  console.log(chalk.dim(`\n${plan.files.length} file(s) will be deleted from ${projectRoot}`));
+}
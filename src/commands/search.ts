@@ -1,44 +1,60 @@
 import chalk from 'chalk';
 import ora from 'ora';
 import { ConfigManager } from '../utils/config.js';
-import { GitService } from '../services/git/git-service.js';
+import { logger } from '../utils/logger.js';
+import { exitWithError } from '../utils/errors.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { formatComponentName } from '../utils/sources.js';
 
 interface SearchOptions {
   branch?: string;
+  /** Only this source's components */
+  source?: string;
   limit?: number;
+  json?: boolean;
 }
 
 export async function searchCommand(query: string, options: SearchOptions = {}): Promise<void> {
   if (!query) {
-    console.log(chalk.red('Please provide a search query.'));
-    return;
+    exitWithError('Please provide a search query.', options.json);
   }
 
+  logger.setSilent(!!options.json);
   const spinner = ora('Searching components...').start();
   try {
     const configManager = new ConfigManager();
     const config = await configManager.load();
-    const gitService = new GitService(config.git, config.cacheDir);
+    const sources = new ComponentSourceService(config);
 
-    const components = await gitService.listComponents(options.branch);
+    const components = await sources.listComponents(options.branch, options.source);
 
-    const matches = components.filter(c => c.name.toLowerCase().includes(query.toLowerCase()));
+    const matches = components.filter(c => formatComponentName(c.name, c.source).toLowerCase().includes(query.toLowerCase()));
 
     spinner.stop();
 
+    const list = options.limit ? matches.slice(0, options.limit) : matches;
+
+    if (options.json) {
+      console.log(JSON.stringify({ query, total: matches.length, components: list }, null, 2));
+      return;
+    }
+
     if (matches.length === 0) {
       console.log(chalk.yellow(`No components found matching "${query}".`));
       return;
     }
 
-    const list = options.limit ? matches.slice(0, options.limit) : matches;
-
     console.log(chalk.blue(`Found ${matches.length} component${matches.length === 1 ? '' : 's'} matching "${query}"${options.limit ? ` (showing ${list.length})` : ''}:\n`));
+    // With several sources the source is shown in a column of its own
+    const showSource = sources.names.length > 1;
+    const names = list.map(comp => formatComponentName(comp.name, comp.source));
+    const width = showSource ? Math.max(...names.map(name => name.length)) : 0;
     list.forEach((comp, idx) => {
-      console.log(`${chalk.dim(`${idx + 1}.`)} ${chalk.bold(comp.name)}`);
+      const source = showSource ? `  ${chalk.dim(comp.source)}` : '';
+      console.log(`${chalk.dim(`${idx + 1}.`)} ${chalk.bold(names[idx].padEnd(width))}${source}`);
     });
   } catch (error) {
     spinner.fail('Search failed');
-    console.error(error);
+    exitWithError(error, options.json);
   }
 } 
\ No newline at end of file
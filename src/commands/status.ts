@@ -0,0 +1,141 @@
+import path from 'path';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../utils/config.js';
+import { ManifestManager, verifyLock } from '../utils/manifest.js';
+import { logger } from '../utils/logger.js';
+import { ExitCode, exitWithError } from '../utils/errors.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { DEFAULT_SOURCE, formatComponentName, getManifestSourceUrls } from '../utils/sources.js';
+import { ComponentStatus } from '../types/index.js';
+
+interface StatusOptions {
+  json?: boolean;
+  maxBehind?: number;
+}
+
+/** Where a source's upstream is, for the components installed from it */
+interface SourceUpstream {
+  branch: string;
+  headCommit: string;
+  latestTag?: string;
+}
+
+export async function statusCommand(options: StatusOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
+  const spinner = ora('Checking installed components...');
+  if (!options.json) {
+    spinner.start();
+  }
+
+  try {
+    const manifestManager = new ManifestManager();
+    const manifest = await manifestManager.load();
+
+    if (!manifest || Object.keys(manifest.lock.components).length === 0) {
+      spinner.stop();
+      if (options.json) {
+        console.log(JSON.stringify({ components: [] }, null, 2));
+      } else {
+        console.log(chalk.yellow(`No components recorded in ${path.basename(manifestManager.path)}.`));
+      }
+      return;
+    }
+
+    const configManager = new ConfigManager();
+    const config = await configManager.load();
+    const sources = new ComponentSourceService(config, { repositoryUrls: getManifestSourceUrls(manifest) });
+
+    const lockedComponents = Object.entries(manifest.lock.components)
+      .map(([name, locked]) => ({ name, ...locked, source: locked.source || DEFAULT_SOURCE }));
+    const drift = await verifyLock(manifest);
+
+    // Each source is compared with its own configured branch
+    const upstreams: Record<string, SourceUpstream> = {};
+    // Keyed by source-prefixed name, as components of different sources may share a name
+    const behind: Record<string, number | null> = {};
+    for (const source of new Set(lockedComponents.map(locked => locked.source))) {
+      const gitService = sources.get(source);
+      const upstream = await gitService.getUpstreamStatus(lockedComponents.filter(locked => locked.source === source), gitService.branch);
+      upstreams[source] = { branch: gitService.branch, headCommit: upstream.headCommit, latestTag: upstream.gitInfo.latestTag };
+      Object.assign(behind, upstream.behind);
+    }
+
+    const statuses: ComponentStatus[] = lockedComponents.map(locked => ({
+      name: formatComponentName(locked.name, locked.source),
+      requested: locked.name in manifest.components,
+      ref: locked.branch,
+      commit: locked.commit,
+      latestTag: upstreams[locked.source].latestTag,
+      headCommit: upstreams[locked.source].headCommit,
+      behind: behind[formatComponentName(locked.name, locked.source)],
+      modifiedFiles: drift
+        .filter(entry => entry.component === locked.name || (entry.sharedFile && locked.sharedFiles.includes(entry.sharedFile)))
+        .map(entry => entry.path)
+    }));
+
+    const tooFarBehind = options.maxBehind === undefined
+      ? []
+      : statuses.filter(status => status.behind === null || status.behind > options.maxBehind!);
+
+    spinner.stop();
+
+    if (options.json) {
+      const main = upstreams[DEFAULT_SOURCE] || Object.values(upstreams)[0];
+      console.log(JSON.stringify({
+        branch: main.branch,
+        headCommit: main.headCommit,
+        latestTag: main.latestTag || null,
+        sources: upstreams,
+        components: statuses
+      }, null, 2));
+    } else {
+      printStatus(statuses, upstreams);
+    }
+
+    if (tooFarBehind.length > 0) {
+      if (!options.json) {
+        console.error(chalk.red(`\n${tooFarBehind.length} component(s) are more than ${options.maxBehind} upstream commit(s) behind.`));
+      }
+      process.exitCode = ExitCode.Failure;
+    }
+  } catch (error) {
+    spinner.fail('Failed to check component status');
+    exitWithError(error, options.json);
+  }
+}
+
+function printStatus(statuses: ComponentStatus[], upstreams: Record<string, SourceUpstream>): void {
+  for (const [source, { branch, headCommit, latestTag }] of Object.entries(upstreams)) {
+    const label = source === DEFAULT_SOURCE ? branch : `${source}:${branch}`;
+    console.log(chalk.blue(`Upstream ${label}: ${headCommit.slice(0, 7)}${latestTag ? `, latest tag: ${latestTag}` : ''}`));
+  }
+  console.log();
+
+  const rows = statuses.map(status => ({
+    name: `${status.name}${status.requested ? '' : chalk.dim(' (dep)')}`,
+    installed: `${status.ref ? `${status.ref} ` : ''}${chalk.dim(status.commit.slice(0, 7))}`,
+    behind: status.behind === null
+      ? chalk.yellow('unknown')
+      : status.behind === 0 ? chalk.green('up to date') : chalk.yellow(`${status.behind} commit${status.behind === 1 ? '' : 's'} behind`),
+    local: status.modifiedFiles.length > 0 ? chalk.red(`${status.modifiedFiles.length} modified`) : chalk.green('clean')
+  }));
+
+  const width = (key: keyof typeof rows[number], header: string) =>
+    Math.max(header.length, ...rows.map(row => stripAnsi(row[key]).length));
+  const widths = {
+    name: width('name', 'Component'),
+    installed: width('installed', 'Installed'),
+    behind: width('behind', 'Upstream')
+  };
+  const pad = (text: string, size: number) => text + ' '.repeat(Math.max(0, size - stripAnsi(text).length));
+
+  console.log(chalk.bold(`${pad('Component', widths.name)}  ${pad('Installed', widths.installed)}  ${pad('Upstream', widths.behind)}  Local`));
+  rows.forEach(row => {
+    console.log(`${pad(row.name, widths.name)}  ${pad(row.installed, widths.installed)}  ${pad(row.behind, widths.behind)}  ${row.local}`);
+  });
+}
+
+function stripAnsi(text: string): string {
+  return text.replace(/\u001b\[[0-9;]*m/g, '');
+}
@@ -0,0 +1,280 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import chalk from 'chalk';
+import ora from 'ora';
+import { ConfigManager } from '../utils/config.js';
+import { ManifestManager, listFiles, toPosix } from '../utils/manifest.js';
+import { logger } from '../utils/logger.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { ComponentSourceService } from '../services/git/component-source.service.js';
+import { DEFAULT_SOURCE, getManifestSourceUrls, parseComponentName } from '../utils/sources.js';
+import { MergeService } from '../services/git/merge.service.js';
+import { ProjectManifest } from '../types/index.js';
+
+interface UpdateOptions {
+  to?: string;
+  json?: boolean;
+}
+
+type FileStatus = 'added' | 'updated' | 'merged' | 'conflict' | 'deleted' | 'kept';
+
+interface FileChange {
+  path: string;
+  status: FileStatus;
+  note?: string;
+}
+
+// Name of the components directory inside the temporary base/upstream trees
+const STAGED_COMPONENTS_DIR = 'components';
+
+export async function updateCommand(componentName: string, options: UpdateOptions = {}): Promise<void> {
+  logger.setSilent(!!options.json);
+  const spinner = ora('Reading manifest...').start();
+
+  try {
+    const manifestManager = new ManifestManager();
+    const manifest = await manifestManager.load();
+    const { source, name } = parseComponentName(componentName);
+    const locked = manifest?.lock.components[name];
+
+    if (!manifest || !locked || (locked.source || DEFAULT_SOURCE) !== source) {
+      spinner.fail(`Component "${componentName}" is not recorded in ${path.basename(manifestManager.path)}`);
+      throw new CliError('Only components downloaded with "mui-bueno download" can be updated.', ExitCode.NotFound);
+    }
+
+    const configManager = new ConfigManager();
+    const config = await configManager.load();
+    const sources = new ComponentSourceService(config, {
+      importStyle: config.importStyle,
+      repositoryUrls: getManifestSourceUrls(manifest)
+    });
+    // The closure is copied by the globs the component was locked with
+    const gitService = sources.withFilePolicy(locked.filePolicy).get(source);
+    const targetRef = options.to || gitService.branch;
+
+    const tmpRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-update-'));
+
+    try {
+      const baseRoot = path.join(tmpRoot, 'base');
+      const localComponentsDir = path.resolve(manifest.componentsDir);
+      const incomingRoot = path.join(tmpRoot, 'incoming');
+
+      spinner.stop();
+
+      // The versions originally downloaded are the merge base
+      logger.info(chalk.blue(`\n📦 Fetching base version ${componentName}@${locked.commit.slice(0, 7)}...\n`));
+      const baseCommits = await fetchLockedBase(name, manifest, sources, baseRoot, path.join(tmpRoot, 'locked'), localComponentsDir);
+
+      logger.info(chalk.blue(`\n📦 Fetching upstream version ${componentName}@${targetRef}...\n`));
+      const incoming = await gitService.downloadComponent(name, targetRef, path.join(incomingRoot, STAGED_COMPONENTS_DIR), localComponentsDir);
+
+      if (incoming.commit === locked.commit) {
+        if (options.json) {
+          console.log(JSON.stringify({ component: componentName, ref: targetRef, from: locked.commit, to: incoming.commit, changes: [] }, null, 2));
+        } else {
+          console.log(chalk.green(`\n✓ ${componentName} is already at ${targetRef} (${incoming.commit.slice(0, 7)}).`));
+        }
+        return;
+      }
+
+      const localSharedRoot = path.dirname(localComponentsDir);
+      const toLocalPath = (relative: string): string => {
+        const [first, ...rest] = relative.split('/');
+        return first === STAGED_COMPONENTS_DIR
+          ? path.join(localComponentsDir, ...rest)
+          : path.join(localSharedRoot, ...relative.split('/'));
+      };
+
+      const relativeFiles = new Set<string>();
+      for (const root of [baseRoot, incomingRoot]) {
+        if (await fs.pathExists(root)) {
+          (await listFiles(root)).forEach(file => relativeFiles.add(toPosix(path.relative(root, file))));
+        }
+      }
+
+      const mergeService = new MergeService();
+      const changes: FileChange[] = [];
+
+      for (const relative of Array.from(relativeFiles).sort()) {
+        const localPath = toLocalPath(relative);
+        const incomingPath = path.join(incomingRoot, ...relative.split('/'));
+        const [local, base, upstream] = await Promise.all([
+          readIfExists(localPath),
+          readIfExists(path.join(baseRoot, ...relative.split('/'))),
+          readIfExists(incomingPath)
+        ]);
+        const displayPath = toPosix(path.relative(process.cwd(), localPath));
+
+        if (!local) {
+          if (base) {
+            // Removed locally after download (or filtered out at download time): keep it removed
+            if (upstream) {
+              await fs.remove(incomingPath);
+            }
+            continue;
+          }
+          if (upstream) {
+            await fs.outputFile(localPath, upstream);
+            changes.push({ path: displayPath, status: 'added' });
+          }
+          continue;
+        }
+
+        if (!upstream) {
+          if (base && local.equals(base)) {
+            await fs.remove(localPath);
+            changes.push({ path: displayPath, status: 'deleted' });
+          } else if (base) {
+            changes.push({ path: displayPath, status: 'kept', note: 'deleted upstream, kept local changes' });
+          }
+          continue;
+        }
+
+        if (local.equals(upstream) || (base && upstream.equals(base))) {
+          continue;
+        }
+
+        if (base && local.equals(base)) {
+          await fs.writeFile(localPath, upstream);
+          changes.push({ path: displayPath, status: 'updated' });
+          continue;
+        }
+
+        const merged = await mergeService.mergeFile(
+          local.toString('utf-8'),
+          base ? base.toString('utf-8') : '',
+          upstream.toString('utf-8'),
+          { current: 'local', base: `base (${(baseCommits[relative] || locked.commit).slice(0, 7)})`, incoming: `upstream (${targetRef})` }
+        );
+        await fs.writeFile(localPath, merged.content);
+        changes.push({
+          path: displayPath,
+          status: merged.conflicts > 0 ? 'conflict' : 'merged',
+          note: merged.conflicts > 0 ? `${merged.conflicts} conflict(s)` : undefined
+        });
+      }
+
+      // The lock keeps describing pristine upstream content so it stays the base for the next update
+      await manifestManager.recordDownload(name, incoming, {
+        repositoryUrl: manifest.repositoryUrl,
+        outputDir: localComponentsDir,
+        hashedOutputDir: path.join(incomingRoot, STAGED_COMPONENTS_DIR),
+        requested: false,
+        filePolicy: locked.filePolicy
+      });
+
+      const conflicts = changes.filter(change => change.status === 'conflict');
+      if (conflicts.length > 0) {
+        process.exitCode = ExitCode.Conflict;
+      }
+
+      if (options.json) {
+        console.log(JSON.stringify({ component: componentName, ref: targetRef, from: locked.commit, to: incoming.commit, changes }, null, 2));
+        return;
+      }
+
+      printChanges(changes);
+
+      console.log(chalk.green(`\n✅ ${componentName} updated ${locked.commit.slice(0, 7)} → ${incoming.commit.slice(0, 7)} (${targetRef})`));
+      if (conflicts.length > 0) {
+        console.log(chalk.yellow(`\n⚠️  ${conflicts.length} file(s) have conflicts. Resolve the conflict markers before committing.`));
+      }
+    } finally {
+      await fs.remove(tmpRoot);
+    }
+  } catch (error) {
+    if (!(error instanceof CliError)) {
+      spinner.fail(`Failed to update ${componentName}`);
+    }
+    exitWithError(error, options.json);
+  }
+}
+
+/**
+ * Write the locked closure of `name` below `baseRoot`, laid out like a download. Each component
+ * and shared file is read at the commit, and by the file policy, the lock recorded for it, since
+ * dependencies may have been locked differently than the component that brought them in. Returns
+ * the commit each file was read at, by path relative to `baseRoot`.
+ */
+async function fetchLockedBase(
+  name: string,
+  manifest: ProjectManifest,
+  sources: ComponentSourceService,
+  baseRoot: string,
+  snapshotsRoot: string,
+  finalOutputDir: string
+): Promise<Record<string, string>> {
+  const closure: string[] = [];
+  const queue = [name];
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    if (!closure.includes(current) && manifest.lock.components[current]) {
+      closure.push(current);
+      queue.push(...manifest.lock.components[current].dependencies);
+    }
+  }
+
+  // One download per source, commit and file policy, reused for every component locked there
+  const snapshotDirs = new Map<string, string>();
+  const baseCommits: Record<string, string> = {};
+  const copyToBase = async (from: string, relative: string, commit: string): Promise<void> => {
+    if (!await fs.pathExists(from)) {
+      return;
+    }
+    const to = path.join(baseRoot, ...relative.split('/'));
+    await fs.copy(from, to, { overwrite: true });
+    const files = (await fs.stat(to)).isDirectory() ? await listFiles(to) : [to];
+    files.forEach(file => { baseCommits[toPosix(path.relative(baseRoot, file))] = commit; });
+  };
+
+  for (const component of closure) {
+    const locked = manifest.lock.components[component];
+    const key = `${locked.source || DEFAULT_SOURCE}@${locked.commit} ${JSON.stringify(locked.filePolicy || {})}`;
+    if (!snapshotDirs.has(key)) {
+      snapshotDirs.set(key, path.join(snapshotsRoot, String(snapshotDirs.size)));
+    }
+    const snapshotRoot = snapshotDirs.get(key)!;
+    const componentDir = path.join(snapshotRoot, STAGED_COMPONENTS_DIR, ...component.split('/'));
+    if (!await fs.pathExists(componentDir)) {
+      await sources.withFilePolicy(locked.filePolicy).get(locked.source).downloadComponent(component, locked.commit, path.join(snapshotRoot, STAGED_COMPONENTS_DIR), finalOutputDir);
+    }
+
+    await copyToBase(componentDir, `${STAGED_COMPONENTS_DIR}/${component}`, locked.commit);
+    for (const sharedFile of locked.sharedFiles) {
+      // Shared files are locked at the commit of the component that last wrote them
+      const sharedCommit = manifest.lock.sharedFiles[sharedFile]?.commit;
+      if (sharedCommit === locked.commit || !(sharedFile in baseCommits)) {
+        await copyToBase(path.join(snapshotRoot, ...sharedFile.split('/')), sharedFile, locked.commit);
+      }
+    }
+  }
+
+  return baseCommits;
+}
+
+async function readIfExists(filePath: string): Promise<Buffer | null> {
+  return await fs.pathExists(filePath) ? fs.readFile(filePath) : null;
+}
+
+function printChanges(changes: FileChange[]): void {
+  if (changes.length === 0) {
+    console.log(chalk.dim('\nNo local files changed.'));
+    return;
+  }
+
+  const colors: Record<FileStatus, (text: string) => string> = {
+    added: chalk.green,
+    updated: chalk.blue,
+    merged: chalk.cyan,
+    conflict: chalk.red,
+    deleted: chalk.yellow,
+    kept: chalk.yellow
+  };
+
+  console.log(chalk.blue('\nChanges:'));
+  changes.forEach(change => {
+    const note = change.note ? chalk.dim(` (${change.note})`) : '';
+    console.log(`  ${colors[change.status](change.status.padEnd(8))} ${change.path}${note}`);
+  });
+}
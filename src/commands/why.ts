@@ -0,0 +1,149 @@
+import path from 'path';
+import chalk from 'chalk';
+import { ManifestManager, toPosix } from '../utils/manifest.js';
+import { CliError, ExitCode, exitWithError } from '../utils/errors.js';
+import { GRAPH_FORMATS, GraphFormat, renderDot } from '../utils/dependency-graph.js';
+import { parseComponentName } from '../utils/sources.js';
+import { DependencyGraph, ProjectManifest } from '../types/index.js';
+
+interface WhyOptions {
+  format?: GraphFormat;
+  json?: boolean;
+}
+
+interface WhyTarget {
+  /** Component or shared file as recorded in the lock */
+  name: string;
+  /** Installed components that contain or directly pull in the target */
+  owners: string[];
+  kind: 'component' | 'file' | 'shared';
+}
+
+/**
+ * Explain which requested components pulled a component or file into the project, using the
+ * dependency graph recorded in the manifest lock.
+ */
+export async function whyCommand(target: string, options: WhyOptions = {}): Promise<void> {
+  const format = options.json ? 'json' : options.format || 'tree';
+  if (!GRAPH_FORMATS.includes(format)) {
+    exitWithError(`Unknown format "${format}". Use one of: ${GRAPH_FORMATS.join(', ')}`);
+  }
+
+  try {
+    const manifestManager = new ManifestManager();
+    const manifest = await manifestManager.load();
+
+    if (!manifest) {
+      throw new CliError(`No ${path.basename(manifestManager.path)} found in ${process.cwd()}`, ExitCode.NotFound);
+    }
+
+    const resolved = resolveTarget(manifest, target);
+    if (!resolved) {
+      throw new CliError(`"${target}" is not an installed component or a file installed with one.`, ExitCode.NotFound);
+    }
+
+    const chains = findChains(manifest, resolved.owners)
+      .map(chain => resolved.kind === 'component' ? chain : [...chain, resolved.name]);
+
+    if (format === 'json') {
+      console.log(JSON.stringify({ target: resolved.name, kind: resolved.kind, chains }, null, 2));
+      return;
+    }
+    if (format === 'dot') {
+      console.log(renderDot(toChainGraph(resolved, chains), [resolved.name]));
+      return;
+    }
+
+    if (chains.length === 0) {
+      console.log(chalk.yellow(`${resolved.name} is installed but no requested component depends on it.`));
+      return;
+    }
+
+    console.log(chalk.blue(`${resolved.name} is installed because of:\n`));
+    chains.forEach(chain => {
+      const [root, ...rest] = chain;
+      console.log(`  ${chalk.bold(root)}${rest.map(step => ` → ${step}`).join('')}`);
+    });
+  } catch (error) {
+    exitWithError(error instanceof CliError ? error : `Failed to explain ${target}: ${error}`, format === 'json');
+  }
+}
+
+/** Match the argument against locked component names, shared files and installed component files */
+function resolveTarget(manifest: ProjectManifest, target: string): WhyTarget | null {
+  const components = manifest.lock.components;
+  const { name: componentName } = parseComponentName(target);
+  if (components[componentName]) {
+    return { name: componentName, owners: [componentName], kind: 'component' };
+  }
+
+  // Shared files are recorded relative to the directory containing the components directory
+  const componentsDir = path.resolve(manifest.componentsDir);
+  const sharedRoot = path.dirname(componentsDir);
+  const candidates = [
+    toPosix(path.relative(sharedRoot, path.resolve(target))),
+    toPosix(target).replace(/^\.\//, '')
+  ];
+
+  for (const candidate of candidates) {
+    if (manifest.lock.sharedFiles[candidate]) {
+      const owners = Object.keys(components).filter(name => components[name].sharedFiles.includes(candidate));
+      return { name: candidate, owners, kind: 'shared' };
+    }
+  }
+
+  // Component files belong to the most specific component containing them (Form/Error over Form)
+  const absolute = path.resolve(target);
+  const relative = toPosix(path.relative(componentsDir, absolute));
+  const owner = Object.keys(components)
+    .filter(name => relative.startsWith(`${name}/`) && components[name].files[relative.slice(name.length + 1)])
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (owner) {
+    return { name: toPosix(path.relative(process.cwd(), absolute)), owners: [owner], kind: 'file' };
+  }
+
+  return null;
+}
+
+/** Every dependency path from a requested component to one of the owners */
+function findChains(manifest: ProjectManifest, owners: string[]): string[][] {
+  const chains: string[][] = [];
+
+  const walk = (name: string, chain: string[]): void => {
+    const locked = manifest.lock.components[name];
+    if (!locked || chain.includes(name)) {
+      return;
+    }
+
+    const next = [...chain, name];
+    if (owners.includes(name)) {
+      chains.push(next);
+    }
+    locked.dependencies.forEach(dependency => walk(dependency, next));
+  };
+
+  Object.keys(manifest.components).sort().forEach(root => walk(root, []));
+  return chains;
+}
+
+/** The part of the lock's dependency graph that lies on one of the chains */
+function toChainGraph(target: WhyTarget, chains: string[][]): DependencyGraph {
+  const nodes: DependencyGraph['nodes'] = {};
+
+  chains.forEach(chain => {
+    const components = target.kind === 'component' ? chain : chain.slice(0, -1);
+    components.forEach((name, index) => {
+      const node = nodes[name] || (nodes[name] = { name, components: [], sharedFiles: [], packages: [] });
+      const next = components[index + 1];
+      if (next && !node.components.includes(next)) {
+        node.components.push(next);
+      }
+      if (!next && target.kind !== 'component' && !node.sharedFiles.includes(target.name)) {
+        node.sharedFiles.push(target.name);
+      }
+    });
+  });
+
+  return { root: target.name, nodes };
+}
@@ -3,10 +3,11 @@ import path from 'path';
 import { ComponentInfo } from '../../types/index.js';
 
 export class ComponentDiscoveryService {
-  constructor(private cacheDir: string) {}
+  /** @param repoRoot checkout of the upstream repository to read components from */
+  constructor(private repoRoot: string) {}
 
   async listComponents(): Promise<ComponentInfo[]> {
-    const componentsPath = path.join(this.cacheDir, '.repo-cache', 'src', 'components');
+    const componentsPath = path.join(this.repoRoot, 'src', 'components');
     const components: ComponentInfo[] = [];
 
     try {
@@ -0,0 +1,76 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ComponentDownloadService } from './component-download.service.js';
+import { FilePolicyService, STORY_FILES } from './file-policy.service.js';
+import { listFiles, toPosix } from '../../utils/manifest.js';
+
+describe('ComponentDownloadService', () => {
+  let repoRoot: string;
+  let outputDir: string;
+
+  const writeUpstream = (file: string, content: string) => fs.outputFile(path.join(repoRoot, 'src', ...file.split('/')), content);
+  const listOutput = async () =>
+    (await listFiles(path.dirname(outputDir))).map(file => toPosix(path.relative(path.dirname(outputDir), file))).sort();
+
+  beforeEach(async () => {
+    const root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-download-')));
+    repoRoot = path.join(root, 'upstream');
+    outputDir = path.join(root, 'project', 'src', 'components');
+
+    await writeUpstream('components/Form/Error/Error.tsx', [
+      "import { Button } from '../../Button/Button';",
+      "import { validate } from '../../../common/validation';",
+      'export const Error = () => Button(validate());'
+    ].join('\n'));
+    // Only the story imports Docs/Helper and the storybook decorators
+    await writeUpstream('components/Form/Error/Error.stories.tsx', [
+      "import { Error } from './Error';",
+      "import { Helper } from '../../Docs/Helper/Helper';",
+      "import { withTheme } from '../../../common/storybook';",
+      'export default { component: Error, decorators: [withTheme], parameters: { docs: Helper } };'
+    ].join('\n'));
+    await writeUpstream('components/Button/Button.tsx', 'export const Button = (value: boolean) => value;');
+    await writeUpstream('components/Docs/Helper/Helper.tsx', 'export const Helper = {};');
+    await writeUpstream('common/validation.ts', 'export const validate = () => true;');
+    await writeUpstream('common/storybook.ts', 'export const withTheme = () => null;');
+  });
+
+  afterEach(async () => {
+    await fs.remove(path.dirname(repoRoot));
+  });
+
+  it('does not download what only excluded files import', async () => {
+    const service = new ComponentDownloadService(repoRoot);
+
+    const result = await service.downloadComponent('Form/Error', outputDir);
+
+    expect(result.dependencies).toEqual(['Button']);
+    expect(result.sharedFiles).toEqual(['common/validation.ts']);
+    expect(result.excludedFiles).toEqual(['components/Form/Error/Error.stories.tsx']);
+    expect(await listOutput()).toEqual([
+      'common/validation.ts',
+      'components/Button/Button.tsx',
+      'components/Form/Error/Error.tsx'
+    ]);
+  });
+
+  it('leaves dependencies of excluded files out of the analysis', async () => {
+    const service = new ComponentDownloadService(repoRoot);
+
+    const { dependencies, sharedFiles } = await service.analyzeComponent('Form/Error');
+
+    expect(dependencies).toEqual(['Button']);
+    expect(sharedFiles).toEqual(['common/validation.ts']);
+  });
+
+  it('follows the imports of files an include pattern brings back', async () => {
+    const service = new ComponentDownloadService(repoRoot, 'relative', false, async () => null, new FilePolicyService({ include: STORY_FILES }));
+
+    const result = await service.downloadComponent('Form/Error', outputDir);
+
+    expect(result.dependencies.sort()).toEqual(['Button', 'Docs/Helper']);
+    expect(result.sharedFiles.sort()).toEqual(['common/storybook.ts', 'common/validation.ts']);
+    expect((await service.analyzeComponent('Form/Error')).dependencies.sort()).toEqual(['Button', 'Docs/Helper']);
+  });
+});
@@ -1,26 +1,62 @@
 import fs from 'fs-extra';
 import path from 'path';
 import { DependencyAnalysisService } from './dependency-analysis.service.js';
-import { ImportPathService } from './import-path.service.js';
+import { AliasRewriteContext, ImportPathService } from './import-path.service.js';
+import { PathAliasService } from './path-alias.service.js';
+import { ModuleGraphService } from './module-graph.service.js';
+import { FilePolicyService } from './file-policy.service.js';
+import { toPosix } from '../../utils/manifest.js';
+import { logger } from '../../utils/logger.js';
+import { ImportStyle } from '../../types/index.js';
 
 interface DownloadResult {
   extractedPath: string;
   dependencies: string[];
+  sharedFiles: string[];
+  /** Files the file policy left out, relative to `src` */
+  excludedFiles: string[];
+}
+
+interface ComponentDependencies {
+  dependencies: string[];
+  sharedFiles: string[];
+  packages: string[];
 }
 
 export class ComponentDownloadService {
   private dependencyAnalysisService: DependencyAnalysisService;
   private importPathService: ImportPathService;
+  private moduleGraphService = new ModuleGraphService();
+  private excludedFiles: Set<string> = new Set();
 
-  constructor(private cacheDir: string) {
+  /**
+   * @param keepGoing report failing dependencies, shared files and import rewrites and carry on
+   * (best effort) instead of aborting the download
+   * @param findExternalComponent look up a component missing from the repository in the sources
+   * it may depend on; returns it as `source:Category/Component`, or null
+   * @param filePolicy which of the component and shared files are copied
+   */
+  constructor(
+    private repoRoot: string,
+    private importStyle: ImportStyle = 'relative',
+    private keepGoing: boolean = false,
+    private findExternalComponent: (componentName: string) => Promise<string | null> = async () => null,
+    private filePolicy: FilePolicyService = new FilePolicyService()
+  ) {
     this.dependencyAnalysisService = new DependencyAnalysisService();
     this.importPathService = new ImportPathService();
   }
 
-  async downloadComponent(componentName: string, outputDir: string): Promise<DownloadResult> {
-    console.log(`Downloading component: ${componentName}`);
+  /**
+   * Copy a component, its sibling component dependencies and shared files into `outputDir`.
+   * Imports are rewritten for `finalOutputDir`, the directory the files will end up in when they
+   * are downloaded somewhere else first.
+   */
+  async downloadComponent(componentName: string, outputDir: string, finalOutputDir: string = outputDir): Promise<DownloadResult> {
+    logger.debug(`Downloading component: ${componentName}`);
     const pathSegments = componentName.split('/');
-    const sourcePath = path.join(this.cacheDir, '.repo-cache', 'src', 'components', ...pathSegments);
+    const sourceRoot = path.join(this.repoRoot, 'src');
+    const sourcePath = path.join(sourceRoot, 'components', ...pathSegments);
     const targetPath = path.join(outputDir, ...pathSegments);
 
     // Ensure source exists
@@ -32,114 +68,81 @@ export class ComponentDownloadService {
     await fs.ensureDir(path.dirname(targetPath));
 
     // Copy component files
-    await fs.copy(sourcePath, targetPath, {
-      filter: (src) => {
-        const basename = path.basename(src);
-        // Include test files but exclude stories and other non-essential files
-        return !basename.startsWith('.') && 
-               !basename.includes('node_modules') && 
-               !basename.includes('.stories.') &&
-               !basename.includes('.mdx');
-      }
-    });
+    await this.copyFiles(sourcePath, targetPath);
 
     // Analyze dependencies
-    const { components: dependencies, sharedFiles } = await this.dependencyAnalysisService.analyzeDependencies(targetPath);
+    const aliasContext = await this.createAliasContext(finalOutputDir);
+    const { components: dependencies, sharedFiles } = await this.dependencyAnalysisService.analyzeDependencies(sourcePath, {
+      sourceRoot,
+      aliases: aliasContext?.upstream,
+      includeFile: (file) => this.shouldCopy(file)
+    });
+    const toFinalPath = (file: string) => path.join(finalOutputDir, path.relative(outputDir, file));
 
     // Update import paths in all files
     const files = await this.findAllFiles(targetPath);
     for (const file of files) {
-      await this.updateImportPaths(file, componentName);
+      await this.updateImportPaths(file, componentName, toFinalPath(file), aliasContext);
     }
 
     // Download component dependencies (other components)
     const downloadedDependencies = [];
     for (const dependency of dependencies) {
-      try {
-        // If the dependency is a relative path, resolve it
-        const dependencyPath = dependency.startsWith('.')
-          ? path.resolve(path.dirname(componentName), dependency)
-          : dependency;
-
-        // Download the dependency
-        const sourceDependencyPath = path.join(this.cacheDir, '.repo-cache', 'src', 'components', dependencyPath);
-        const targetDependencyPath = path.join(outputDir, dependencyPath);
-
-        // Ensure source exists
-        if (!await fs.pathExists(sourceDependencyPath)) {
-          console.error(`Dependency ${dependencyPath} not found in repository`);
-          continue;
+      // If the dependency is a relative path, resolve it
+      const dependencyPath = dependency.startsWith('.')
+        ? path.resolve(path.dirname(componentName), dependency)
+        : dependency;
+
+      // Download the dependency
+      const sourceDependencyPath = path.join(this.repoRoot, 'src', 'components', dependencyPath);
+      const targetDependencyPath = path.join(outputDir, dependencyPath);
+
+      // Ensure source exists; a dependency from another source is copied when that source downloads it
+      if (!await fs.pathExists(sourceDependencyPath)) {
+        const external = await this.findExternalComponent(dependencyPath);
+        if (external) {
+          downloadedDependencies.push(external);
+        } else {
+          this.handleFailure(`Dependency ${dependencyPath} not found in repository`);
         }
+        continue;
+      }
 
+      try {
         // Create target directory
         await fs.ensureDir(path.dirname(targetDependencyPath));
 
         // Copy component files
-        await fs.copy(sourceDependencyPath, targetDependencyPath, {
-          filter: (src) => {
-            const basename = path.basename(src);
-            // Include test files but exclude stories and other non-essential files
-            return !basename.startsWith('.') && 
-                   !basename.includes('node_modules') && 
-                   !basename.includes('.stories.') &&
-                   !basename.includes('.mdx');
-          }
-        });
+        await this.copyFiles(sourceDependencyPath, targetDependencyPath);
 
         // Update import paths in dependency files
         const dependencyFiles = await this.findAllFiles(targetDependencyPath);
         for (const file of dependencyFiles) {
-          await this.updateImportPaths(file, dependencyPath);
+          await this.updateImportPaths(file, dependencyPath, toFinalPath(file), aliasContext);
         }
 
         downloadedDependencies.push(dependencyPath);
       } catch (error) {
-        console.error(`Failed to download dependency ${dependency}:`, error);
+        this.handleFailure(`Failed to download dependency ${dependency}`, error);
       }
     }
 
     // Copy shared file dependencies (e.g., common utilities)
     const projectRoot = path.dirname(outputDir); // root directory where components lives
+    const copiedSharedFiles: string[] = [];
 
     for (const sharedRelPath of sharedFiles) {
-      try {
-        // Attempt to locate the shared path (could be a directory or single file)
-        let sourceSharedPath: string | null = null;
-
-        const baseSharedPath = path.join(this.cacheDir, '.repo-cache', 'src', sharedRelPath);
-
-        if (await fs.pathExists(baseSharedPath)) {
-          sourceSharedPath = baseSharedPath;
-        } else {
-          // Try file variants (Foo.tsx, Foo.ts, Foo.jsx, Foo.js)
-          const exts = ['.tsx', '.ts', '.jsx', '.js'];
-          for (const ext of exts) {
-            const candidate = baseSharedPath + ext;
-            if (await fs.pathExists(candidate)) {
-              sourceSharedPath = candidate;
-              break;
-            }
-          }
-
-          // Try index variants inside directory (Foo/index.tsx ...)
-          if (!sourceSharedPath) {
-            for (const ext of exts) {
-              const candidate = path.join(baseSharedPath, `index${ext}`);
-              if (await fs.pathExists(candidate)) {
-                sourceSharedPath = path.join(baseSharedPath, `index${ext}`);
-                break;
-              }
-            }
-          }
-        }
+      // Attempt to locate the shared path (could be a directory or single file)
+      const sourceSharedPath = await this.resolveSharedSource(sharedRelPath);
 
-        if (!sourceSharedPath) {
-          console.error(`Shared dependency ${sharedRelPath} not found in repository`);
-          continue;
-        }
+      if (!sourceSharedPath) {
+        this.handleFailure(`Shared dependency ${sharedRelPath} not found in repository`);
+        continue;
+      }
 
+      try {
         // Determine relative path from src root to mimic structure when copying out
-        const relativeFromSrc = path.relative(path.join(this.cacheDir, '.repo-cache', 'src'), sourceSharedPath);
+        const relativeFromSrc = path.relative(path.join(this.repoRoot, 'src'), sourceSharedPath);
         const targetSharedPath = path.join(projectRoot, relativeFromSrc);
 
         // Ensure target dir exists
@@ -147,36 +150,185 @@ export class ComponentDownloadService {
 
         // Copy directory or file depending on what we found
         const stat = await fs.stat(sourceSharedPath);
+        await this.copyFiles(sourceSharedPath, targetSharedPath);
         if (stat.isDirectory()) {
-          await fs.copy(sourceSharedPath, targetSharedPath, {
-            filter: (src) => {
-              const basename = path.basename(src);
-              return !basename.startsWith('.') && !basename.includes('node_modules') && !basename.includes('.stories.') && !basename.includes('.mdx');
-            }
-          });
+          for (const file of await this.findAllFiles(targetSharedPath, true)) {
+            copiedSharedFiles.push(toPosix(path.relative(projectRoot, file)));
+          }
+        } else if (await fs.pathExists(targetSharedPath)) {
+          copiedSharedFiles.push(toPosix(relativeFromSrc));
         } else {
-          await fs.copy(sourceSharedPath, targetSharedPath);
+          continue;
+        }
+
+        // Shared files keep their own imports but upstream aliases still need rewriting
+        if (aliasContext) {
+          const sharedSourceFiles = stat.isDirectory() ? await this.findAllFiles(targetSharedPath) : [targetSharedPath];
+          for (const file of sharedSourceFiles.filter(file => /\.(tsx?|jsx?)$/.test(file))) {
+            const content = await fs.readFile(file, 'utf-8');
+            await fs.writeFile(file, await this.importPathService.rewriteAliasImports(content, toFinalPath(file), aliasContext));
+          }
         }
       } catch (err) {
-        console.error(`Failed to download shared dependency ${sharedRelPath}:`, err);
+        this.handleFailure(`Failed to download shared dependency ${sharedRelPath}`, err);
       }
     }
 
     return {
       extractedPath: targetPath,
-      dependencies: downloadedDependencies
+      dependencies: downloadedDependencies,
+      sharedFiles: copiedSharedFiles,
+      excludedFiles: Array.from(this.excludedFiles).sort()
+    };
+  }
+
+  /**
+   * Read a component's files as they would look after download (same filtering and import
+   * rewriting), keyed by posix path relative to the component directory. Nothing is written.
+   */
+  async readComponentFiles(componentName: string, outputDir: string): Promise<Record<string, string>> {
+    const sourcePath = path.join(this.repoRoot, 'src', 'components', ...componentName.split('/'));
+    const targetPath = path.join(outputDir, ...componentName.split('/'));
+    const aliasContext = await this.createAliasContext(outputDir);
+
+    if (!await fs.pathExists(sourcePath)) {
+      throw new Error(`Component ${componentName} not found in repository`);
+    }
+
+    const files: Record<string, string> = {};
+    for (const file of await this.findAllFiles(sourcePath, true)) {
+      const relative = path.relative(sourcePath, file);
+      if (!this.shouldCopy(file)) {
+        continue;
+      }
+
+      const content = await fs.readFile(file, 'utf-8');
+      if (!/\.(tsx?|jsx?)$/.test(file)) {
+        files[toPosix(relative)] = content;
+        continue;
+      }
+
+      const updatedContent = this.importPathService.updateImportPaths(content, componentName, file);
+      files[toPosix(relative)] = aliasContext
+        ? await this.importPathService.rewriteAliasImports(updatedContent, path.join(targetPath, relative), aliasContext)
+        : updatedContent;
+    }
+
+    return files;
+  }
+
+  /**
+   * Direct dependencies of a component in the repository: sibling components, the shared
+   * files a download would copy (paths relative to `src`) and the npm packages they import.
+   */
+  async analyzeComponent(componentName: string): Promise<ComponentDependencies> {
+    const sourceRoot = path.join(this.repoRoot, 'src');
+    const sourcePath = path.join(sourceRoot, 'components', ...componentName.split('/'));
+
+    if (!await fs.pathExists(sourcePath)) {
+      throw new Error(`Component ${componentName} not found in repository`);
+    }
+
+    const aliases = await PathAliasService.load(this.repoRoot);
+    const { components, sharedFiles } = await this.dependencyAnalysisService.analyzeDependencies(sourcePath, {
+      sourceRoot,
+      aliases,
+      includeFile: (file) => this.shouldCopy(file)
+    });
+
+    const resolvedSharedFiles: string[] = [];
+    for (const sharedRelPath of sharedFiles) {
+      const sourceSharedPath = await this.resolveSharedSource(sharedRelPath);
+      if (!sourceSharedPath) {
+        continue;
+      }
+      const sharedSourceFiles = (await fs.stat(sourceSharedPath)).isDirectory()
+        ? (await this.findAllFiles(sourceSharedPath, true)).filter(file => this.shouldCopy(file))
+        : [sourceSharedPath].filter(file => this.shouldCopy(file));
+      resolvedSharedFiles.push(...sharedSourceFiles.map(file => toPosix(path.relative(sourceRoot, file))));
+    }
+
+    const packages = new Set<string>();
+    const scannedFiles = [
+      ...(await this.findAllFiles(sourcePath)).filter(file => this.shouldCopy(file)),
+      ...resolvedSharedFiles.map(file => path.join(sourceRoot, file)).filter(file => /\.(tsx?|jsx?)$/.test(file))
+    ];
+    for (const file of scannedFiles) {
+      const content = await fs.readFile(file, 'utf-8');
+      this.moduleGraphService
+        .getPackageImports(content, file, (specifier) => !!aliases?.matches(specifier))
+        .forEach(name => packages.add(name));
+    }
+
+    const dependencies: string[] = [];
+    for (const component of components) {
+      const exists = await fs.pathExists(path.join(sourceRoot, 'components', ...component.split('/')));
+      dependencies.push(exists ? component : await this.findExternalComponent(component) || component);
+    }
+
+    return {
+      dependencies,
+      sharedFiles: Array.from(new Set(resolvedSharedFiles)).sort(),
+      packages: Array.from(packages).sort()
     };
   }
 
-  private async findAllFiles(dir: string): Promise<string[]> {
+  /** Locate a shared dependency (extensionless, relative to `src`) as a directory, file or index file */
+  private async resolveSharedSource(sharedRelPath: string): Promise<string | null> {
+    const baseSharedPath = path.join(this.repoRoot, 'src', sharedRelPath);
+
+    if (await fs.pathExists(baseSharedPath)) {
+      return baseSharedPath;
+    }
+
+    // Try file variants (Foo.tsx, Foo.ts, Foo.jsx, Foo.js)
+    const exts = ['.tsx', '.ts', '.jsx', '.js'];
+    for (const ext of exts) {
+      const candidate = baseSharedPath + ext;
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    // Try index variants inside directory (Foo/index.tsx ...)
+    for (const ext of exts) {
+      const candidate = path.join(baseSharedPath, `index${ext}`);
+      if (await fs.pathExists(candidate)) {
+        return candidate;
+      }
+    }
+
+    return null;
+  }
+
+  /** Whether the file policy copies an upstream file */
+  private shouldCopy(src: string): boolean {
+    return this.filePolicy.allows(toPosix(path.relative(path.join(this.repoRoot, 'src'), src)));
+  }
+
+  /** Copy a file or directory with the files the file policy allows, noting those it leaves out */
+  private async copyFiles(sourcePath: string, targetPath: string): Promise<void> {
+    await fs.copy(sourcePath, targetPath, {
+      filter: async (src) => {
+        // Rules match files; directories are always entered
+        if ((await fs.stat(src)).isDirectory() || this.shouldCopy(src)) {
+          return true;
+        }
+        this.excludedFiles.add(toPosix(path.relative(path.join(this.repoRoot, 'src'), src)));
+        return false;
+      }
+    });
+  }
+
+  private async findAllFiles(dir: string, includeAll: boolean = false): Promise<string[]> {
     const files: string[] = [];
     const entries = await fs.readdir(dir, { withFileTypes: true });
 
     for (const entry of entries) {
       const fullPath = path.join(dir, entry.name);
       if (entry.isDirectory()) {
-        files.push(...await this.findAllFiles(fullPath));
-      } else if (entry.isFile() && /\.(tsx?|jsx?)$/.test(entry.name)) {
+        files.push(...await this.findAllFiles(fullPath, includeAll));
+      } else if (entry.isFile() && (includeAll || /\.(tsx?|jsx?)$/.test(entry.name))) {
         files.push(fullPath);
       }
     }
@@ -184,9 +336,48 @@ export class ComponentDownloadService {
     return files;
   }
 
-  private async updateImportPaths(filePath: string, componentName: string): Promise<void> {
-    const content = await fs.readFile(filePath, 'utf-8');
-    const updatedContent = this.importPathService.updateImportPaths(content, componentName);
-    await fs.writeFile(filePath, updatedContent);
+  /** Alias rewriting setup for the repository; null when the upstream tsconfig has no paths */
+  private async createAliasContext(outputDir: string): Promise<AliasRewriteContext | null> {
+    const upstream = await PathAliasService.load(this.repoRoot);
+    if (!upstream) {
+      return null;
+    }
+
+    return {
+      upstream,
+      project: this.importStyle === 'alias' ? await PathAliasService.load(process.cwd()) : null,
+      sourceRoot: path.join(this.repoRoot, 'src'),
+      outputDir: path.resolve(outputDir)
+    };
+  }
+
+  private async updateImportPaths(
+    filePath: string,
+    componentName: string,
+    finalPath: string,
+    aliasContext: AliasRewriteContext | null
+  ): Promise<void> {
+    try {
+      const content = await fs.readFile(filePath, 'utf-8');
+      let updatedContent = this.importPathService.updateImportPaths(content, componentName, filePath);
+      if (aliasContext) {
+        updatedContent = await this.importPathService.rewriteAliasImports(updatedContent, path.resolve(finalPath), aliasContext);
+      }
+      await fs.writeFile(filePath, updatedContent);
+    } catch (error) {
+      this.handleFailure(`Failed to rewrite imports in ${path.basename(filePath)}`, error);
+    }
+  }
+
+  /** Abort the download, or with `keepGoing` report the failure and continue */
+  private handleFailure(message: string, error?: unknown): void {
+    if (!this.keepGoing) {
+      throw new Error(error ? `${message}: ${error instanceof Error ? error.message : error}` : message);
+    }
+    if (error === undefined) {
+      console.error(message);
+    } else {
+      console.error(`${message}:`, error);
+    }
   }
 } 
\ No newline at end of file
@@ -0,0 +1,65 @@
+import { CliConfig, ComponentInfo, FilePolicyConfig, ImportStyle } from '../../types/index.js';
+import { GitService } from './git-service.js';
+import { FilePolicyService } from './file-policy.service.js';
+import { DEFAULT_SOURCE, getSource, getSources } from '../../utils/sources.js';
+
+interface ComponentSourceOptions {
+  importStyle?: ImportStyle;
+  keepGoing?: boolean;
+  /** Repository URLs replacing the configured ones by source name, e.g. those recorded in the manifest */
+  repositoryUrls?: Record<string, string>;
+  /** Which upstream files downloads copy; the configured file policy by default */
+  filePolicy?: FilePolicyService;
+}
+
+/**
+ * The configured component sources: the default repository under `git` and the named `sources`.
+ * Each source gets its own git service, and with it its own cache, branch and authentication.
+ */
+export class ComponentSourceService {
+  private services: Map<string, GitService> = new Map();
+  readonly filePolicy: FilePolicyService;
+
+  constructor(private config: CliConfig, private options: ComponentSourceOptions = {}) {
+    this.filePolicy = options.filePolicy || new FilePolicyService(config.files || {});
+  }
+
+  get names(): string[] {
+    return getSources(this.config).map(source => source.name);
+  }
+
+  get(sourceName: string = DEFAULT_SOURCE): GitService {
+    let service = this.services.get(sourceName);
+    if (!service) {
+      const { name, ...gitConfig } = getSource(this.config, sourceName);
+      const repositoryUrl = this.options.repositoryUrls?.[name] || gitConfig.repositoryUrl;
+      service = new GitService({ ...gitConfig, repositoryUrl }, this.config.cacheDir, {
+        importStyle: this.options.importStyle,
+        keepGoing: this.options.keepGoing,
+        lockTimeout: this.config.cacheLockTimeout,
+        fetchTtl: this.config.fetchTtl,
+        clone: this.config.clone,
+        filePolicy: this.filePolicy,
+        source: name,
+        sources: this
+      });
+      this.services.set(sourceName, service);
+    }
+    return service;
+  }
+
+  /** The same sources copying files by other globs, e.g. those a component was locked with */
+  withFilePolicy(rules: FilePolicyConfig = {}): ComponentSourceService {
+    return new ComponentSourceService(this.config, { ...this.options, filePolicy: new FilePolicyService(rules) });
+  }
+
+  /** Components of every source, or of one source only, each tagged with its source */
+  async listComponents(branch?: string, sourceName?: string): Promise<ComponentInfo[]> {
+    const names = sourceName ? [getSource(this.config, sourceName).name] : this.names;
+    const components: ComponentInfo[] = [];
+    for (const name of names) {
+      components.push(...await this.get(name).listComponents(branch));
+    }
+    return components;
+  }
+}
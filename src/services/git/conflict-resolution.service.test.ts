@@ -0,0 +1,103 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { ConflictResolutionService } from './conflict-resolution.service.js';
+import { hashFile } from '../../utils/manifest.js';
+import { DownloadResult, FileConflict, ProjectManifest } from '../../types/index.js';
+
+describe('ConflictResolutionService', () => {
+  let project: string;
+  let stagedOutputDir: string;
+  let service: ConflictResolutionService;
+
+  const projectPath = (file: string) => path.join(project, ...file.split('/'));
+  const stagedPath = (file: string) => path.join(path.dirname(stagedOutputDir), ...file.split('/').slice(1));
+  const read = (file: string) => fs.readFile(file, 'utf-8');
+
+  const buttonConflict: FileConflict = { path: 'src/components/Button/Button.tsx', reason: 'modified locally' };
+  const themeConflict: FileConflict = { path: 'src/common/theme.ts', reason: 'not installed by mui-bueno' };
+
+  const result = (): DownloadResult => ({
+    extractedPath: path.join(stagedOutputDir, 'Button'),
+    commit: 'c0ffee',
+    components: [{ name: 'Button', path: path.join(stagedOutputDir, 'Button'), dependencies: [], sharedFiles: ['common/theme.ts'] }],
+    sources: {},
+    excludedFiles: []
+  });
+
+  beforeEach(async () => {
+    project = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-conflicts-')));
+    stagedOutputDir = path.join(project, '.staging', 'stage', 'components');
+
+    // Upstream versions are staged; the project has local versions of both files
+    await fs.outputFile(stagedPath('src/components/Button/Button.tsx'), 'export const Button = "upstream";\n');
+    await fs.outputFile(stagedPath('src/common/theme.ts'), 'export const theme = "upstream";\n');
+    await fs.outputFile(stagedPath('src/components/Button/index.ts'), "export * from './Button';\n");
+    await fs.outputFile(projectPath('src/components/Button/Button.tsx'), 'export const Button = "local";\n');
+    await fs.outputFile(projectPath('src/common/theme.ts'), 'export const theme = "local";\n');
+
+    service = new ConflictResolutionService(stagedOutputDir, 'src/components', project);
+  });
+
+  afterEach(async () => {
+    await fs.remove(project);
+  });
+
+  it('finds files that differ from the lock or were never downloaded', async () => {
+    const manifest: ProjectManifest = {
+      repositoryUrl: 'git@example.com:ui.git',
+      componentsDir: 'src/components',
+      components: { Button: 'main' },
+      lock: {
+        components: { Button: { commit: 'c0ffee', checksum: '', dependencies: [], sharedFiles: [], files: { 'Button.tsx': 'pristine-hash' } } },
+        sharedFiles: {}
+      }
+    };
+
+    expect(await service.findConflicts(result(), manifest)).toEqual([themeConflict, buttonConflict]);
+  });
+
+  it('shows the changes taking upstream would make', async () => {
+    const patch = await service.createPatch(buttonConflict);
+
+    expect(patch).toContain('--- a/src/components/Button/Button.tsx');
+    expect(patch).toContain('+++ b/src/components/Button/Button.tsx');
+    expect(patch).toContain('-export const Button = "local";');
+    expect(patch).toContain('+export const Button = "upstream";');
+  });
+
+  it('keeps the local version with "mine" and locks the upstream hash', async () => {
+    const upstreamHash = await hashFile(stagedPath(buttonConflict.path));
+
+    await service.resolve(buttonConflict, 'mine');
+
+    expect(await read(stagedPath(buttonConflict.path))).toBe('export const Button = "local";\n');
+    expect(service.lockedHashes).toEqual({ [projectPath(buttonConflict.path)]: upstreamHash });
+    expect(await service.writeSidecars()).toEqual([]);
+  });
+
+  it('takes upstream with "theirs" and writes nothing else', async () => {
+    await service.resolve(themeConflict, 'theirs');
+
+    expect(await read(stagedPath(themeConflict.path))).toBe('export const theme = "upstream";\n');
+    expect(service.lockedHashes).toEqual({});
+    expect(await service.writeSidecars()).toEqual([]);
+  });
+
+  it('keeps the local version and writes upstream next to it with "incoming"', async () => {
+    await service.resolve(buttonConflict, 'incoming');
+
+    expect(await read(stagedPath(buttonConflict.path))).toBe('export const Button = "local";\n');
+    expect(await service.writeSidecars()).toEqual([`${projectPath(buttonConflict.path)}.incoming`]);
+    expect(await read(`${projectPath(buttonConflict.path)}.incoming`)).toBe('export const Button = "upstream";\n');
+  });
+
+  it('takes upstream and keeps the local version as .orig with "orig"', async () => {
+    await service.resolve(themeConflict, 'orig');
+
+    expect(await read(stagedPath(themeConflict.path))).toBe('export const theme = "upstream";\n');
+    expect(service.lockedHashes).toEqual({});
+    expect(await service.writeSidecars()).toEqual([`${projectPath(themeConflict.path)}.orig`]);
+    expect(await read(`${projectPath(themeConflict.path)}.orig`)).toBe('export const theme = "local";\n');
+  });
+});
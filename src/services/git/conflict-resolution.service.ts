@@ -0,0 +1,89 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { DownloadPlanService } from './download-plan.service.js';
+import { hashFile } from '../../utils/manifest.js';
+import { createPatch } from '../../utils/patch.js';
+import { ConflictStrategy, DownloadResult, FileConflict, ProjectManifest } from '../../types/index.js';
+
+export const CONFLICT_STRATEGIES: ConflictStrategy[] = ['mine', 'theirs', 'incoming', 'orig'];
+
+/** Copies written next to a conflicting file */
+const SIDECAR_EXTENSIONS: Partial<Record<ConflictStrategy, string>> = {
+  incoming: '.incoming',
+  orig: '.orig'
+};
+
+/**
+ * Resolves, file by file, the conflicts between a staged download and the project. Resolutions
+ * are applied to the staged files, so the project is still only written when the staging
+ * directory is committed; `.orig` and `.incoming` copies are written afterwards.
+ */
+export class ConflictResolutionService {
+  private sidecars: Array<{ path: string; content: Buffer }> = [];
+  private keptHashes: Record<string, string> = {};
+  private projectComponentsDir: string;
+
+  constructor(private stagedOutputDir: string, outputDir: string, private projectRoot: string = process.cwd()) {
+    this.projectComponentsDir = path.resolve(projectRoot, outputDir);
+  }
+
+  /** Upstream hashes of the files kept in their local version, by absolute path, for the lock */
+  get lockedHashes(): Record<string, string> {
+    return { ...this.keptHashes };
+  }
+
+  /** Staged files that would replace project files with changes mui-bueno did not make */
+  async findConflicts(result: DownloadResult, manifest: ProjectManifest | null): Promise<FileConflict[]> {
+    const plan = await new DownloadPlanService(this.projectRoot)
+      .createPlan(result.components[0]?.name || '', result, this.stagedOutputDir, this.projectComponentsDir, manifest);
+    return plan.files
+      .filter(file => file.action === 'conflict')
+      .map(file => ({ path: file.path, ...(file.reason && { reason: file.reason }) }));
+  }
+
+  /** The changes taking upstream's version would make to the local file */
+  async createPatch(conflict: FileConflict): Promise<string> {
+    const [mine, theirs] = await Promise.all([
+      fs.readFile(this.getProjectPath(conflict), 'utf-8'),
+      fs.readFile(this.getStagedPath(conflict), 'utf-8')
+    ]);
+    return createPatch(conflict.path, mine, theirs);
+  }
+
+  async resolve(conflict: FileConflict, strategy: ConflictStrategy): Promise<void> {
+    const projectPath = this.getProjectPath(conflict);
+    const stagedPath = this.getStagedPath(conflict);
+    const keepMine = strategy === 'mine' || strategy === 'incoming';
+
+    const extension = SIDECAR_EXTENSIONS[strategy];
+    if (extension) {
+      this.sidecars.push({
+        path: `${projectPath}${extension}`,
+        content: await fs.readFile(keepMine ? stagedPath : projectPath)
+      });
+    }
+
+    if (keepMine) {
+      this.keptHashes[projectPath] = await hashFile(stagedPath);
+      await fs.copy(projectPath, stagedPath, { overwrite: true });
+    }
+  }
+
+  /** Write the `.orig` and `.incoming` copies; call once the download is in the project */
+  async writeSidecars(): Promise<string[]> {
+    for (const sidecar of this.sidecars) {
+      await fs.writeFile(sidecar.path, sidecar.content);
+    }
+    return this.sidecars.map(sidecar => sidecar.path);
+  }
+
+  private getProjectPath(conflict: FileConflict): string {
+    return path.resolve(this.projectRoot, conflict.path);
+  }
+
+  /** Shared files are staged next to the components directory, as they land in the project */
+  private getStagedPath(conflict: FileConflict): string {
+    const fromSharedRoot = path.relative(path.dirname(this.projectComponentsDir), this.getProjectPath(conflict));
+    return path.join(path.dirname(this.stagedOutputDir), fromSharedRoot);
+  }
+}
@@ -1,112 +1,72 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { logger } from '../../utils/logger.js';
+import { ModuleGraphService } from './module-graph.service.js';
+
+import { PathAliasService } from './path-alias.service.js';
 
 interface Dependencies {
   components: string[];
   sharedFiles: string[];
 }
 
+interface AnalyzeOptions {
+  /** The upstream repository's `src` directory the component lives in */
+  sourceRoot: string;
+  /** Aliases from the upstream repository's tsconfig */
+  aliases?: PathAliasService | null;
+  /** Which files are read; files a download leaves out (e.g. stories) must not bring in dependencies */
+  includeFile?: (file: string) => boolean;
+}
+
 export class DependencyAnalysisService {
+  private moduleGraphService = new ModuleGraphService();
+
   constructor() {}
 
-  async analyzeDependencies(componentPath: string): Promise<Dependencies> {
-    console.log('Analyzing dependencies for:', componentPath);
+  async analyzeDependencies(componentPath: string, options: AnalyzeOptions): Promise<Dependencies> {
+    logger.debug('Analyzing dependencies for:', componentPath);
     const dependencies: Dependencies = {
       components: [],
       sharedFiles: []
     };
 
     // Find all TypeScript/JavaScript files in the component directory
-    const files = await this.findAllFiles(componentPath);
-    console.log('Found files:', files);
+    const files = (await this.findAllFiles(componentPath)).filter(file => options.includeFile?.(file) ?? true);
+    logger.debug('Found files:', files);
 
     // Get the base component path (e.g., Form/Error)
-    const baseComponentPath = path.relative(path.join(process.cwd(), 'components'), componentPath);
-    console.log('Base component path:', baseComponentPath);
-
-    // Get the parent directory path (e.g., Form)
-    const parentDir = path.dirname(baseComponentPath);
-    console.log('Parent directory:', parentDir);
+    const baseComponentPath = path.relative(path.join(options.sourceRoot, 'components'), componentPath).split(path.sep).join('/');
+    logger.debug('Base component path:', baseComponentPath);
 
     for (const file of files) {
-      console.log('Analyzing file:', file);
+      logger.debug('Analyzing file:', file);
       const content = await fs.readFile(file, 'utf-8');
-      const imports = this.extractLocalImports(content);
-      console.log('Found imports:', imports);
+      const imports = this.extractLocalImports(content, file);
+      logger.debug('Found imports:', imports);
 
       for (const importPath of imports) {
         // Skip imports from the same directory
         if (importPath.startsWith('./')) {
-          console.log('Skipping same-directory import:', importPath);
+          logger.debug('Skipping same-directory import:', importPath);
           continue;
         }
 
-        // Handle relative imports
+        // Relative imports resolve inside the repository: under src/components they are
+        // component dependencies, anywhere else under src they are shared files
         if (importPath.startsWith('../')) {
-          // Get the absolute path of the import relative to the components directory
           const absolutePath = path.resolve(path.dirname(file), importPath);
-          const relativeToComponents = path.relative(
-            path.join(process.cwd(), 'components'),
-            absolutePath
-          );
-          console.log('Relative to components:', relativeToComponents);
-
-          // If this is a component import (not going outside the components directory)
-          if (!relativeToComponents.startsWith('..')) {
-            // Remove file extension and normalize path
-            let componentName = relativeToComponents.replace(/\.(tsx?|jsx?)$/, '');
-
-            // Normalize the path so it points to the component *directory* rather than the specific file
-            // Common pattern: components follow `<Component>/<Component>.tsx` so an import like `../Button/Button` resolves
-            // to `Buttons/Button/Button`. We want `Buttons/Button`.
-            const componentParts = componentName.split(path.sep);
-
-            // Remove trailing 'index' (e.g., Foo/index -> Foo)
-            if (componentParts[componentParts.length - 1] === 'index') {
-              componentParts.pop();
-            }
-
-            // If last segment is the same as the previous (e.g., Button/Button), drop it
-            if (
-              componentParts.length >= 2 &&
-              componentParts[componentParts.length - 1] === componentParts[componentParts.length - 2]
-            ) {
-              componentParts.pop();
-            }
-
-            componentName = componentParts.join('/');
-            console.log('Normalized component dependency:', componentName);
-
-            // For any relative import inside components, treat as component dependency
-            if (!dependencies.components.includes(componentName)) {
-              dependencies.components.push(componentName);
-            }
-          } else {
-            // This is a shared file dependency located outside the components directory.
-            // Determine the path relative to the workspace root so we can later resolve it
-            // inside the cached repository ("src/<sharedPath>").
-
-            // The workspace root is the directory where the CLI is executed (process.cwd()).
-            const projectRoot = process.cwd();
-
-            // Create a relative path from the workspace root to the imported file.
-            // Example:
-            //   absolutePath =   /workspace/common/Utils.ts
-            //   projectRoot  =   /workspace
-            //   => relative    =   common/Utils.ts
-            const relativeToProject = path.relative(projectRoot, absolutePath);
-
-            // Strip any leading "src/" segment because files are stored under <repo>/src/ in the cache.
-            const withoutSrcPrefix = relativeToProject.replace(/^src[\/]/, '');
-
-            // Remove the file extension so the download service can try multiple extensions when resolving.
-            const sharedPath = withoutSrcPrefix.replace(/\.(tsx?|jsx?)$/, '');
-
-            console.log('Found shared file dependency:', sharedPath);
-
-            if (!dependencies.sharedFiles.includes(sharedPath)) {
-              dependencies.sharedFiles.push(sharedPath);
-            }
+          this.addSourceDependency(path.relative(options.sourceRoot, absolutePath), dependencies);
+        }
+      }
+
+      // Alias imports (e.g. `@/components/Button`) resolve through the upstream tsconfig paths
+      if (options.aliases) {
+        for (const aliasImport of this.extractAliasImports(content, file, options.aliases)) {
+          const resolved = await options.aliases.resolve(aliasImport);
+          if (resolved) {
+            logger.debug('Resolved alias import:', aliasImport, '->', resolved);
+            this.addSourceDependency(path.relative(options.sourceRoot, resolved), dependencies);
           }
         }
       }
@@ -115,7 +75,7 @@ export class DependencyAnalysisService {
     // Remove self-references
     dependencies.components = dependencies.components.filter(dep => dep !== baseComponentPath);
 
-    console.log('Final dependencies:', dependencies);
+    logger.debug('Final dependencies:', dependencies);
     return dependencies;
   }
 
@@ -135,19 +95,66 @@ export class DependencyAnalysisService {
     return files;
   }
 
-  private extractLocalImports(content: string): string[] {
-    const imports: string[] = [];
-    const importRegex = /from\s+['"](\.[^'"]+)['"]/g;
-    let match;
+  /** Classify a path relative to the upstream `src` directory as a component or shared file dependency */
+  private addSourceDependency(relativeToSource: string, dependencies: Dependencies): void {
+    if (relativeToSource.startsWith('..') || path.isAbsolute(relativeToSource)) {
+      return;
+    }
+
+    const [topLevel, ...rest] = relativeToSource.split(path.sep);
+    if (topLevel === 'components' && rest.length > 0) {
+      const componentName = this.normalizeComponentPath(rest.join(path.sep));
+      logger.debug('Normalized component dependency:', componentName);
+      this.addDependency(dependencies.components, componentName);
+    } else {
+      // Remove the file extension so the download service can try multiple extensions when resolving
+      const sharedPath = relativeToSource.split(path.sep).join('/').replace(/\.(tsx?|jsx?)$/, '');
+      logger.debug('Found shared file dependency:', sharedPath);
+      this.addDependency(dependencies.sharedFiles, sharedPath);
+    }
+  }
 
-    while ((match = importRegex.exec(content)) !== null) {
-      const importPath = match[1];
-      // Remove file extension if present
-      const cleanPath = importPath.replace(/\.(tsx?|jsx?)$/, '');
-      imports.push(cleanPath);
+  private addDependency(list: string[], dependency: string): void {
+    if (dependency && !list.includes(dependency)) {
+      list.push(dependency);
     }
+  }
+
+  private normalizeComponentPath(relativeToComponents: string): string {
+    // Remove file extension and normalize path
+    const componentName = relativeToComponents.replace(/\.(tsx?|jsx?)$/, '');
+
+    // Normalize the path so it points to the component *directory* rather than the specific file
+    // Common pattern: components follow `<Component>/<Component>.tsx` so an import like `../Button/Button` resolves
+    // to `Buttons/Button/Button`. We want `Buttons/Button`.
+    const componentParts = componentName.split(path.sep);
+
+    // Remove trailing 'index' (e.g., Foo/index -> Foo)
+    if (componentParts[componentParts.length - 1] === 'index') {
+      componentParts.pop();
+    }
+
+    // If last segment is the same as the previous (e.g., Button/Button), drop it
+    if (
+      componentParts.length >= 2 &&
+      componentParts[componentParts.length - 1] === componentParts[componentParts.length - 2]
+    ) {
+      componentParts.pop();
+    }
+
+    return componentParts.join('/');
+  }
+
+  private extractAliasImports(content: string, fileName: string, aliases: PathAliasService): string[] {
+    return this.moduleGraphService.parseImports(content, fileName)
+      .map(moduleImport => moduleImport.specifier)
+      .filter(specifier => aliases.matches(specifier));
+  }
 
-    return imports;
+  private extractLocalImports(content: string, fileName: string): string[] {
+    // Remove file extension if present
+    return this.moduleGraphService.getLocalImports(content, fileName)
+      .map(importPath => importPath.replace(/\.(tsx?|jsx?)$/, ''));
   }
 
   // Removed isValidComponent heuristic; relying on path-based detection to avoid missing siblings
@@ -0,0 +1,128 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DownloadPlanService } from './download-plan.service.js';
+import { PackageResolutionService } from './package-resolution.service.js';
+import { hashFile } from '../../utils/manifest.js';
+import { DownloadResult, ProjectManifest } from '../../types/index.js';
+
+describe('DownloadPlanService', () => {
+  let project: string;
+  let stagedOutputDir: string;
+
+  const stage = (file: string, content: string) => fs.outputFile(path.join(path.dirname(stagedOutputDir), ...file.split('/')), content);
+  const writeProject = (file: string, content: string) => fs.outputFile(path.join(project, 'src', ...file.split('/')), content);
+
+  const result = (): DownloadResult => ({
+    extractedPath: path.join(stagedOutputDir, 'Form', 'Error'),
+    ref: 'main',
+    commit: 'c0ffee',
+    components: [
+      { name: 'Form/Error', path: path.join(stagedOutputDir, 'Form', 'Error'), dependencies: ['Button'], sharedFiles: ['common/theme.ts'] },
+      { name: 'Button', source: 'team', commit: 'beef', path: path.join(stagedOutputDir, 'Button'), dependencies: [], sharedFiles: [] }
+    ],
+    sources: {},
+    excludedFiles: ['components/Button/Button.stories.tsx']
+  });
+
+  beforeEach(async () => {
+    project = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-plan-')));
+    stagedOutputDir = path.join(project, '.staging', 'components');
+  });
+
+  afterEach(async () => {
+    await fs.remove(project);
+  });
+
+  it('plans every staged file against the project', async () => {
+    await stage('components/Form/Error/Error.tsx', 'export const Error = 2;');
+    await stage('components/Button/Button.tsx', 'export const Button = 1;');
+    await stage('components/Button/index.ts', "export * from './Button';");
+    await stage('common/theme.ts', 'export const theme = 2;');
+    await stage('common/utils.ts', 'export const utils = 1;');
+
+    // Button.tsx is unchanged, Error.tsx is pristine, theme.ts was edited locally, utils.ts was never downloaded
+    await writeProject('components/Button/Button.tsx', 'export const Button = 1;');
+    await writeProject('components/Form/Error/Error.tsx', 'export const Error = 1;');
+    await writeProject('common/theme.ts', 'export const theme = 1; // local');
+    await writeProject('common/utils.ts', 'export const utils = 0;');
+    const manifest: ProjectManifest = {
+      repositoryUrl: 'git@example.com:ui.git',
+      componentsDir: 'src/components',
+      components: { 'Form/Error': 'main' },
+      lock: {
+        components: {
+          'Form/Error': {
+            commit: 'c0ffee',
+            checksum: '',
+            dependencies: [],
+            sharedFiles: ['common/theme.ts'],
+            files: { 'Error.tsx': await hashFile(path.join(project, 'src', 'components', 'Form', 'Error', 'Error.tsx')) }
+          }
+        },
+        sharedFiles: { 'common/theme.ts': { commit: 'c0ffee', hash: 'upstream-hash' } }
+      }
+    };
+
+    const plan = await new DownloadPlanService(project).createPlan('Form/Error', result(), stagedOutputDir, 'src/components', manifest);
+
+    expect(plan).toMatchObject({
+      component: 'Form/Error',
+      ref: 'main',
+      commit: 'c0ffee',
+      outputDir: 'src/components',
+      components: ['Form/Error', 'team:Button'],
+      excludedFiles: ['components/Button/Button.stories.tsx'],
+      packages: []
+    });
+    expect(plan.files).toEqual([
+      { path: 'src/common/theme.ts', action: 'conflict', reason: 'modified locally', shared: true },
+      { path: 'src/common/utils.ts', action: 'conflict', reason: 'not installed by mui-bueno', shared: true },
+      { path: 'src/components/Button/Button.tsx', action: 'unchanged', shared: false },
+      { path: 'src/components/Button/index.ts', action: 'create', shared: false },
+      { path: 'src/components/Form/Error/Error.tsx', action: 'overwrite', shared: false }
+    ]);
+  });
+
+  it('checks nested component files against the most specific lock entry', async () => {
+    await stage('components/Form/Error/Error.tsx', 'export const Error = 2;');
+    await writeProject('components/Form/Error/Error.tsx', 'export const Error = 1;');
+    const errorHash = await hashFile(path.join(project, 'src', 'components', 'Form', 'Error', 'Error.tsx'));
+    const locked = { commit: 'c0ffee', checksum: '', dependencies: [], sharedFiles: [] };
+    const manifest: ProjectManifest = {
+      repositoryUrl: 'git@example.com:ui.git',
+      componentsDir: 'src/components',
+      components: { Form: 'main' },
+      lock: {
+        components: {
+          Form: { ...locked, files: { 'Form.tsx': 'form-hash' } },
+          'Form/Error': { ...locked, files: { 'Error.tsx': errorHash } }
+        },
+        sharedFiles: {}
+      }
+    };
+
+    const plan = await new DownloadPlanService(project).createPlan('Form/Error', result(), stagedOutputDir, 'src/components', manifest);
+
+    expect(plan.files).toEqual([{ path: 'src/components/Form/Error/Error.tsx', action: 'overwrite', shared: false }]);
+  });
+
+  it('lists packages at the ranges upstream declares, as an install would resolve them', async () => {
+    await stage('components/Button/Button.tsx', "import MuiButton from '@mui/material/Button';");
+    await fs.outputJson(path.join(project, 'package.json'), { dependencies: { react: '^18.2.0' } });
+    await fs.outputJson(path.join(project, 'node_modules', 'react', 'package.json'), { name: 'react', version: '18.2.0' });
+
+    const packages = await new PackageResolutionService(project).resolve({
+      '@mui/material': { ranges: ['^5.15.0'], peer: false, components: ['Button'] },
+      '@emotion/react': { ranges: ['^11.11.0'], peer: true, components: ['Button'] },
+      react: { ranges: ['^17.0.0 || ^18.0.0'], peer: true, components: ['Button'] }
+    });
+    const plan = await new DownloadPlanService(project).createPlan('Button', result(), stagedOutputDir, 'src/components', null, packages);
+
+    expect(plan.packages).toEqual([
+      { name: '@emotion/react', ranges: ['^11.11.0'], peer: true, action: 'install', spec: '@emotion/react@^11.11.0', range: '^11.11.0' },
+      { name: '@mui/material', ranges: ['^5.15.0'], action: 'install', spec: '@mui/material@^5.15.0', range: '^5.15.0' },
+      { name: 'react', ranges: ['^17.0.0 || ^18.0.0'], peer: true, current: '18.2.0', action: 'satisfied' }
+    ]);
+  });
+});
@@ -0,0 +1,98 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { hashFile, listFiles, toPosix } from '../../utils/manifest.js';
+import { formatComponentName } from '../../utils/sources.js';
+import { DownloadPlan, DownloadResult, PackageResolution, PlannedFile, ProjectManifest } from '../../types/index.js';
+
+/**
+ * Compares a download staged outside the project with the project itself, so a download can be
+ * reviewed before anything is written.
+ */
+export class DownloadPlanService {
+  constructor(private projectRoot: string = process.cwd()) {}
+
+  /**
+   * Build the plan for a download staged into `stagedOutputDir`. Shared files were staged next to
+   * it, mirroring how they land next to `outputDir` in the project. `packages` are the npm
+   * packages as PackageResolutionService resolved them for the download.
+   */
+  async createPlan(
+    componentName: string,
+    result: DownloadResult,
+    stagedOutputDir: string,
+    outputDir: string,
+    manifest: ProjectManifest | null,
+    packages: PackageResolution[] = []
+  ): Promise<DownloadPlan> {
+    const stagedRoot = path.dirname(stagedOutputDir);
+    const projectComponentsDir = path.resolve(this.projectRoot, outputDir);
+    const sharedRoot = path.dirname(projectComponentsDir);
+    const stagedFiles = await fs.pathExists(stagedRoot) ? await listFiles(stagedRoot) : [];
+
+    const files: PlannedFile[] = [];
+    for (const stagedFile of stagedFiles) {
+      const shared = !stagedFile.startsWith(stagedOutputDir + path.sep);
+      const targetPath = shared
+        ? path.join(sharedRoot, path.relative(stagedRoot, stagedFile))
+        : path.join(projectComponentsDir, path.relative(stagedOutputDir, stagedFile));
+
+      files.push({
+        ...await this.planFile(stagedFile, targetPath, manifest),
+        path: toPosix(path.relative(this.projectRoot, targetPath)),
+        shared
+      });
+    }
+
+    return {
+      component: componentName,
+      ref: result.ref,
+      commit: result.commit,
+      outputDir: toPosix(path.relative(this.projectRoot, projectComponentsDir)) || '.',
+      components: result.components.map(component => formatComponentName(component.name, component.source)),
+      files: files.sort((a, b) => a.path.localeCompare(b.path)),
+      excludedFiles: result.excludedFiles,
+      packages
+    };
+  }
+
+  private async planFile(
+    stagedFile: string,
+    targetPath: string,
+    manifest: ProjectManifest | null
+  ): Promise<Pick<PlannedFile, 'action' | 'reason'>> {
+    if (!await fs.pathExists(targetPath)) {
+      return { action: 'create' };
+    }
+
+    const [incomingHash, currentHash] = await Promise.all([hashFile(stagedFile), hashFile(targetPath)]);
+    if (incomingHash === currentHash) {
+      return { action: 'unchanged' };
+    }
+
+    const lockedHash = manifest ? this.findLockedHash(manifest, targetPath) : undefined;
+    if (lockedHash === undefined) {
+      return { action: 'conflict', reason: 'not installed by mui-bueno' };
+    }
+    if (lockedHash !== currentHash) {
+      return { action: 'conflict', reason: 'modified locally' };
+    }
+    return { action: 'overwrite' };
+  }
+
+  /** The hash the lock records for a project file, if a component or shared file entry covers it */
+  private findLockedHash(manifest: ProjectManifest, targetPath: string): string | undefined {
+    const componentsDir = path.resolve(this.projectRoot, manifest.componentsDir);
+    const fromComponents = toPosix(path.relative(componentsDir, targetPath));
+
+    // Nested components share directories, so the most specific component wins
+    const owner = Object.keys(manifest.lock.components)
+      .filter(name => fromComponents.startsWith(`${name}/`))
+      .sort((a, b) => b.length - a.length)
+      .find(name => manifest.lock.components[name].files[fromComponents.slice(name.length + 1)]);
+    if (owner) {
+      return manifest.lock.components[owner].files[fromComponents.slice(owner.length + 1)];
+    }
+
+    return manifest.lock.sharedFiles[toPosix(path.relative(path.dirname(componentsDir), targetPath))]?.hash;
+  }
+}
@@ -0,0 +1,49 @@
+import { FilePolicyService, STORY_FILES, TEST_FILES } from './file-policy.service.js';
+
+describe('FilePolicyService', () => {
+  it('leaves out stories, MDX docs, hidden files and installed packages by default', () => {
+    const policy = new FilePolicyService();
+
+    expect(policy.allows('components/Button/Button.tsx')).toBe(true);
+    expect(policy.allows('components/Button/Button.test.tsx')).toBe(true);
+    expect(policy.allows('common/utils.ts')).toBe(true);
+    expect(policy.allows('components/Button/Button.stories.tsx')).toBe(false);
+    expect(policy.allows('components/Button/Button.mdx')).toBe(false);
+    expect(policy.allows('components/Button/.eslintrc.json')).toBe(false);
+    expect(policy.allows('components/Button/.storybook/preview.ts')).toBe(false);
+    expect(policy.allows('components/Button/node_modules/x/index.js')).toBe(false);
+  });
+
+  it('copies excluded files an include pattern matches', () => {
+    const policy = new FilePolicyService({ include: STORY_FILES });
+
+    expect(policy.allows('components/Button/Button.stories.tsx')).toBe(true);
+    expect(policy.allows('components/Button/Docs.mdx')).toBe(true);
+    expect(policy.allows('components/Button/.eslintrc.json')).toBe(false);
+  });
+
+  it('adds exclude patterns, matching names when they have no slash', () => {
+    const policy = new FilePolicyService({ exclude: TEST_FILES }, { exclude: ['*.css', 'components/Form/**'] });
+
+    expect(policy.allows('components/Button/Button.test.tsx')).toBe(false);
+    expect(policy.allows('components/Button/Button.spec.ts')).toBe(false);
+    expect(policy.allows('components/Button/Button.module.css')).toBe(false);
+    expect(policy.allows('components/Form/Error/Error.tsx')).toBe(false);
+    expect(policy.allows('components/Button/Button.tsx')).toBe(true);
+  });
+
+  it('lets later includes override earlier excludes', () => {
+    const policy = new FilePolicyService({ exclude: ['common/**'] }, { include: ['common/theme.ts'] });
+
+    expect(policy.allows('common/theme.ts')).toBe(true);
+    expect(policy.allows('common/utils.ts')).toBe(false);
+  });
+
+  it('reports the rules beyond the defaults, as the lock records them', () => {
+    expect(new FilePolicyService().rules).toEqual({});
+    expect(new FilePolicyService({ exclude: TEST_FILES }, { include: ['**/*.stories.*'] }).rules).toEqual({
+      include: ['**/*.stories.*'],
+      exclude: TEST_FILES
+    });
+  });
+});
@@ -0,0 +1,44 @@
+import { minimatch } from 'minimatch';
+import { FilePolicyConfig } from '../../types/index.js';
+
+/** Hidden files, installed packages and stories (with their MDX docs) are not copied by default */
+const DEFAULT_EXCLUDE = ['**/.*', '**/.*/**', '**/node_modules/**', '**/*.stories.*', '**/*.mdx'];
+
+export const TEST_FILES = ['**/*.test.*', '**/*.spec.*'];
+export const STORY_FILES = ['**/*.stories.*', '**/*.mdx'];
+
+/**
+ * Which upstream files a download copies. Rules are globs matched against paths relative to the
+ * upstream `src` directory (e.g. `components/Form/Error/Error.test.tsx`, `common/utils.ts`);
+ * patterns without a slash match file names. A file matching an exclude pattern is skipped
+ * unless an include pattern matches it too.
+ */
+export class FilePolicyService {
+  private include: string[];
+  private exclude: string[];
+
+  /** Later rules are added to the earlier ones, e.g. the config's and then the command line's */
+  constructor(...rules: FilePolicyConfig[]) {
+    this.include = rules.flatMap(rule => rule.include || []);
+    this.exclude = [...DEFAULT_EXCLUDE, ...rules.flatMap(rule => rule.exclude || [])];
+  }
+
+  /** The include and exclude patterns beyond the defaults, as recorded in the lock */
+  get rules(): FilePolicyConfig {
+    const exclude = this.exclude.slice(DEFAULT_EXCLUDE.length);
+    return {
+      ...(this.include.length > 0 && { include: [...this.include] }),
+      ...(exclude.length > 0 && { exclude })
+    };
+  }
+
+  allows(relativePath: string): boolean {
+    return !this.exclude.some(pattern => matches(relativePath, pattern))
+      || this.include.some(pattern => matches(relativePath, pattern));
+  }
+}
+
+function matches(relativePath: string, pattern: string): boolean {
+  return minimatch(relativePath, pattern, { dot: true, matchBase: true });
+}
+
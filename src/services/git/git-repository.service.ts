@@ -1,79 +1,341 @@
-import { GitConfig, GitInfo } from '../../types/index.js';
+import { CloneConfig, GitConfig, GitInfo } from '../../types/index.js';
 import fs from 'fs-extra';
 import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
 import simpleGit, { SimpleGit } from 'simple-git';
+import { logger } from '../../utils/logger.js';
+import { CacheLock } from '../../utils/cache-lock.js';
+import { getGitAuthConfig, getGitAuthEnv, redactSecrets, resolveHome } from '../../utils/git-auth.js';
+import { DEFAULT_FETCH_TTL, FetchMode } from '../../utils/fetch-policy.js';
+import {
+  CLONE_DIR,
+  SNAPSHOTS_DIR,
+  getLocalRepositoryPath,
+  getRepositoryCacheDir,
+  normalizeRepositoryUrl,
+  readLastFetch,
+  readOriginUrl,
+  recordFetch
+} from '../../utils/repository-cache.js';
+
+const execFileAsync = promisify(execFile);
+
+/** What snapshots contain when sparse checkout is on: the sources plus the root config files read with them */
+const SPARSE_PATTERNS = ['/src/', '/package.json', '/tsconfig*.json'];
+
+const FULL_SHA = /^[0-9a-f]{40}$/i;
+
+export interface RepositoryCacheOptions {
+  clone?: CloneConfig;
+  /** Seconds to wait for another process holding the cache lock */
+  lockTimeout?: number;
+  /** Seconds after a fetch during which the cached clone is used without fetching again */
+  fetchTtl?: number;
+  fetchMode?: FetchMode;
+  /** Whether ssh may prompt, e.g. for a key passphrase */
+  interactive?: boolean;
+}
 
 export class GitRepositoryService {
   private git: SimpleGit;
+  /** Set when the repository is a local path or `file://` URL */
+  private localPath: string | null;
+  private repositoryDir: string;
   private repoPath: string;
+  private snapshotsPath: string;
+  private lock: CacheLock;
+  /** `-c` settings for authentication, passed to every git invocation */
+  private authConfig: string[];
+  /** Environment variables for authentication (the ssh command), set on every git invocation */
+  private authEnv: Record<string, string>;
+  private lastFetchedAt: Date | null = null;
+  /** Whether this instance already tried to fetch, and whether that worked */
+  private fetchAttempted = false;
+  private fetchSucceeded = false;
 
-  constructor(private config: GitConfig, private cacheDir: string) {
-    this.repoPath = path.join(cacheDir, '.repo-cache');
-    console.log('Initializing GitRepositoryService with repoPath:', this.repoPath);
+  /**
+   * Each repository URL gets its own directory under `cacheDir`, so switching to a fork or mirror
+   * never reuses another repository's clone.
+   */
+  constructor(private config: GitConfig, private cacheDir: string, private options: RepositoryCacheOptions = {}) {
+    this.repositoryDir = getRepositoryCacheDir(cacheDir, config.repositoryUrl);
+    this.repoPath = path.join(this.repositoryDir, CLONE_DIR);
+    this.snapshotsPath = path.join(this.repositoryDir, SNAPSHOTS_DIR);
+    this.lock = new CacheLock(this.repositoryDir, options.lockTimeout);
+    this.localPath = getLocalRepositoryPath(config.repositoryUrl);
+    logger.debug('Initializing GitRepositoryService with repoPath:', this.repoPath);
     fs.ensureDirSync(this.repoPath);
-    this.git = simpleGit();
+    this.authConfig = getGitAuthConfig(config);
+    this.authEnv = getGitAuthEnv(config, !!options.interactive);
+    this.git = this.createGit();
   }
 
   async testConnection(): Promise<boolean> {
+    if (this.localPath) {
+      const problem = await this.checkLocalRepository(this.localPath);
+      if (problem) {
+        console.error(problem);
+      }
+      return !problem;
+    }
+
     try {
-      console.log('Testing connection to repository:', this.config.repositoryUrl);
+      logger.debug('Testing connection to repository:', this.config.repositoryUrl);
+      await this.assertSshKeyExists();
       await this.git.listRemote(['--heads', this.config.repositoryUrl]);
       return true;
     } catch (error) {
-      console.error('Connection test failed:', error);
+      console.error('Connection test failed:', redactSecrets(String(error)));
       return false;
     }
   }
 
-  async ensureRepositoryCache(branch?: string): Promise<void> {
-    console.log('Ensuring repository cache exists...');
-    // Check if repo already exists
-    const isRepo = await fs.pathExists(path.join(this.repoPath, '.git'));
-    console.log('Repository exists:', isRepo);
+  /** A local repository only has to be a git repository, bare or with a working tree; returns what is wrong with it */
+  private async checkLocalRepository(localPath: string): Promise<string | null> {
+    logger.debug('Checking local repository:', localPath);
+    if (!await fs.pathExists(localPath)) {
+      return `Local repository ${localPath} does not exist`;
+    }
+
+    try {
+      await simpleGit({ baseDir: localPath }).revparse(['--git-dir']);
+      return null;
+    } catch {
+      return `${localPath} is not a git repository`;
+    }
+  }
+
+  /**
+   * The working tree of a local repository, uncommitted changes included, when `ref` is the branch
+   * it has checked out; null for remote and bare repositories and for other refs, which are read
+   * from the cached clone like any other repository. The commit is the working tree's HEAD.
+   */
+  async resolveWorkingTree(ref: string): Promise<{ commit: string; path: string } | null> {
+    if (!this.localPath) {
+      return null;
+    }
+
+    const git = simpleGit({ baseDir: this.localPath });
+    if ((await git.revparse(['--is-bare-repository'])).trim() === 'true') {
+      return null;
+    }
+    const branch = (await git.revparse(['--abbrev-ref', 'HEAD'])).trim();
+    if (ref !== branch && ref !== 'HEAD') {
+      return null;
+    }
+
+    const changes = await git.raw(['status', '--porcelain', '--', 'src', 'package.json', 'tsconfig*.json']);
+    if (changes.trim()) {
+      logger.info(`Reading ${this.localPath} with its uncommitted changes`);
+    }
+    return { commit: (await git.revparse(['HEAD'])).trim(), path: this.localPath };
+  }
+
+  /** A git client that authenticates with the configured SSH key, token or credential helper */
+  private createGit(baseDir?: string): SimpleGit {
+    const git = simpleGit({
+      baseDir,
+      config: this.authConfig,
+      // The ssh command and credential helper are built by the CLI itself, not taken from input.
+      // Once an environment is set, simple-git also rejects variables inherited from the user's
+      // own shell (GIT_EDITOR, GIT_ASKPASS, GIT_CONFIG_COUNT, ...), so those are allowed too.
+      unsafe: {
+        allowUnsafeSshCommand: true,
+        allowUnsafeCredentialHelper: true,
+        allowUnsafeAskPass: true,
+        allowUnsafeConfigEnvCount: true,
+        allowUnsafeConfigPaths: true,
+        allowUnsafeDiffExternal: true,
+        allowUnsafeEditor: true,
+        allowUnsafeGitProxy: true,
+        allowUnsafePager: true,
+        allowUnsafeTemplateDir: true
+      }
+    });
+    return Object.keys(this.authEnv).length > 0 ? git.env({ ...process.env, ...this.authEnv }) : git;
+  }
+
+  private async assertSshKeyExists(): Promise<void> {
+    if (this.config.sshKeyPath && !await fs.pathExists(resolveHome(this.config.sshKeyPath))) {
+      throw new Error(`SSH key ${this.config.sshKeyPath} does not exist. Fix sshKeyPath with "mui-bueno config --edit".`);
+    }
+  }
+
+  /**
+   * Clone the repository, or fetch it when it is already cached and the last fetch is older than
+   * the fetch TTL (always with `refresh`, never when `offline`). The clone has no working tree:
+   * files are only ever read from per-commit snapshots (see `ensureSnapshot`), so concurrent
+   * commands reading different refs never see each other's checkouts.
+   */
+  async ensureRepositoryCache(): Promise<void> {
+    await this.lock.withLock(() => this.updateRepositoryCache());
+  }
+
+  private async updateRepositoryCache(): Promise<void> {
+    logger.debug('Ensuring repository cache exists...');
+    // Check if repo already exists, and is a clone of the configured repository
+    const originUrl = await readOriginUrl(this.repoPath);
+    const isRepo = originUrl !== null && normalizeRepositoryUrl(originUrl) === normalizeRepositoryUrl(this.config.repositoryUrl);
+    logger.debug('Repository exists:', isRepo);
 
     if (!isRepo) {
+      if (this.fetchMode === 'offline') {
+        throw new Error(`${this.config.repositoryUrl} is not in the cache yet. Run without --offline to clone it.`);
+      }
+      if (originUrl !== null) {
+        logger.debug(`Cached clone points at ${originUrl}, not ${this.config.repositoryUrl}; cloning again`);
+        await fs.remove(this.snapshotsPath);
+      }
       // Clone repository
-      console.log('Cloning repository to:', this.repoPath);
+      logger.debug('Cloning repository to:', this.repoPath);
+      await this.assertSshKeyExists();
+      const problem = this.localPath && await this.checkLocalRepository(this.localPath);
+      if (problem) {
+        throw new Error(problem);
+      }
       // First, ensure the directory is empty
       await fs.emptyDir(this.repoPath);
       // Clone into the directory
-      await this.git.clone(this.config.repositoryUrl, this.repoPath);
+      await this.git.clone(this.config.repositoryUrl, this.repoPath, this.getCloneArgs());
       // Initialize git in the repo directory
-      this.git = simpleGit({ baseDir: this.repoPath });
-      console.log('Repository cloned successfully');
+      this.git = this.createGit(this.repoPath);
+      await this.configureSparseCheckout();
+      this.fetchAttempted = true;
+      this.fetchSucceeded = true;
+      this.lastFetchedAt = new Date();
+      await recordFetch(this.repositoryDir, this.lastFetchedAt);
+      logger.debug('Repository cloned successfully');
     } else {
       // Update existing repository
-      console.log('Updating existing repository');
-      this.git = simpleGit({ baseDir: this.repoPath });
-      await this.git.fetch(['--all', '--prune']);
-      await this.git.pull();
-      console.log('Repository updated successfully');
+      logger.debug('Updating existing repository');
+      this.git = this.createGit(this.repoPath);
+      // Same repository under another URL (e.g. HTTPS instead of SSH): fetch through the configured one
+      if (originUrl !== this.config.repositoryUrl) {
+        await this.git.remote(['set-url', 'origin', this.config.repositoryUrl]);
+      }
+      await this.configureSparseCheckout();
+      await this.fetchIfStale();
+    }
+  }
+
+  /**
+   * No working tree, and by default no file contents until a snapshot needs them (blobless
+   * partial clone). `depth` limits history; it is deepened when an older ref is asked for.
+   * Servers without partial clone support ignore the filter.
+   */
+  private getCloneArgs(): string[] {
+    const { depth = 0, filter = 'blob:none' } = this.options.clone || {};
+    const args = ['--no-checkout'];
+    if (filter) {
+      args.push(`--filter=${filter}`);
+    }
+    if (depth > 0) {
+      args.push(`--depth=${depth}`, '--no-single-branch');
+    }
+    return args;
+  }
+
+  /**
+   * Limit snapshots to `SPARSE_PATTERNS` (unless sparse checkout is turned off), so a partial
+   * clone only ever downloads the files the CLI reads.
+   */
+  private async configureSparseCheckout(): Promise<void> {
+    const sparse = this.options.clone?.sparse !== false;
+    await this.git.addConfig('core.sparseCheckout', String(sparse));
+    if (sparse) {
+      await fs.outputFile(path.join(this.repoPath, '.git', 'info', 'sparse-checkout'), `${SPARSE_PATTERNS.join('\n')}\n`);
+    }
+  }
+
+  private async isShallow(): Promise<boolean> {
+    return (await this.git.revparse(['--is-shallow-repository'])).trim() === 'true';
+  }
+
+  /**
+   * Make a ref that is older than a shallow clone's history available: a commit is fetched on its
+   * own when the server allows it, anything else deepens the clone to its full history.
+   */
+  private async deepen(ref: string): Promise<void> {
+    if (FULL_SHA.test(ref)) {
+      try {
+        await this.git.fetch(['origin', ref, `--depth=${this.options.clone?.depth || 1}`]);
+        return;
+      } catch (error) {
+        logger.debug(`Could not fetch ${ref} on its own:`, error);
+      }
+    }
+    logger.debug('Fetching the full history to find', ref);
+    await this.git.fetch(['--unshallow', '--tags', 'origin']);
+  }
+
+  private get fetchMode(): FetchMode {
+    return this.options.fetchMode || 'auto';
+  }
+
+  private async fetchIfStale(): Promise<void> {
+    this.lastFetchedAt = await readLastFetch(this.repositoryDir);
+    if (this.fetchMode === 'offline') {
+      logger.debug('Offline: using the cached repository as is');
+      return;
     }
 
-    // Switch to specified branch if provided
-    if (branch) {
-      console.log('Checking out branch:', branch);
-      await this.checkoutBranch(branch);
+    // Fetching a local repository is cheap, so its latest commits are always picked up
+    const ttl = this.localPath ? 0 : (this.options.fetchTtl ?? DEFAULT_FETCH_TTL) * 1000;
+    if (this.fetchMode === 'auto' && this.lastFetchedAt && Date.now() - this.lastFetchedAt.getTime() < ttl) {
+      logger.debug('Repository fetched at', this.lastFetchedAt.toISOString(), '- within the fetch TTL, not fetching');
+      return;
     }
+
+    await this.fetch();
+  }
+
+  /** Fetch all refs. Unless refreshing was asked for, a failed fetch falls back to the cached clone */
+  private async fetch(): Promise<void> {
+    this.fetchAttempted = true;
+    try {
+      await this.assertSshKeyExists();
+      // Keep a shallow clone shallow: without a depth, new refs would bring their full history
+      const depth = this.options.clone?.depth;
+      await this.git.fetch(['--all', '--prune', '--tags', ...(depth && await this.isShallow() ? [`--depth=${depth}`] : [])]);
+    } catch (error) {
+      if (this.fetchMode === 'refresh') {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message.trim() : String(error);
+      console.error(redactSecrets(`Could not fetch ${this.config.repositoryUrl}, using the cached copy (${this.describeLastFetch()}): ${message}`));
+      return;
+    }
+
+    this.fetchSucceeded = true;
+    this.lastFetchedAt = new Date();
+    await recordFetch(this.repositoryDir, this.lastFetchedAt);
+    logger.debug('Repository updated successfully');
+  }
+
+  private describeLastFetch(): string {
+    return this.lastFetchedAt ? `last fetched ${this.lastFetchedAt.toLocaleString()}` : 'never fetched';
   }
 
   async getGitInfo(): Promise<GitInfo> {
-    console.log('Getting Git info...');
+    logger.debug('Getting Git info...');
     try {
-      const [branches, tags, currentBranch, latestCommit] = await Promise.all([
-        this.git.branchLocal(),
+      const [branches, tags, latestCommit] = await Promise.all([
+        this.git.branch(['-r']),
         this.git.tags(),
-        this.git.revparse(['--abbrev-ref', 'HEAD']),
-        this.git.revparse(['HEAD'])
+        this.resolveBranchHead(this.config.branch)
       ]);
 
       const info = {
-        currentBranch: currentBranch.trim(),
-        latestCommit: latestCommit.trim(),
-        availableBranches: branches.all,
-        availableTags: tags.all || []
+        currentBranch: this.config.branch,
+        latestCommit,
+        availableBranches: branches.all
+          .filter(branch => branch.startsWith('origin/') && branch !== 'origin/HEAD')
+          .map(branch => branch.slice('origin/'.length)),
+        availableTags: tags.all || [],
+        latestTag: tags.latest
       };
-      console.log('Git info:', info);
+      logger.debug('Git info:', info);
       return info;
     } catch (error) {
       console.error('Error getting Git info:', error);
@@ -86,18 +348,138 @@ export class GitRepositoryService {
     }
   }
 
-  async checkoutVersion(version: string): Promise<void> {
-    console.log('Checking out version:', version);
-    await this.git.checkout(version);
+  async resolveCommit(ref: string): Promise<string> {
+    const commit = await this.git.revparse([`${ref}^{commit}`]);
+    return commit.trim();
+  }
+
+  /** Commit of a branch as last fetched from origin, falling back to the local branch */
+  async resolveBranchHead(branch: string): Promise<string> {
+    try {
+      return await this.resolveCommit(`origin/${branch}`);
+    } catch {
+      return await this.resolveCommit(branch);
+    }
+  }
+
+  /**
+   * Resolve a branch, tag or commit to a commit. Branches resolve to their remote-tracking branch,
+   * since local branches in the cache are never updated.
+   */
+  async resolveRef(ref: string = this.config.branch): Promise<string> {
+    const commit = await this.tryResolve(ref);
+    if (commit) {
+      return commit;
+    }
+
+    // The ref may be newer than a cache that was still fresh enough not to fetch
+    if (this.fetchMode === 'auto' && !this.fetchAttempted) {
+      await this.lock.withLock(() => this.fetch());
+      const fetched = await this.tryResolve(ref);
+      if (fetched) {
+        return fetched;
+      }
+    }
+
+    // ...or older than the history of a shallow clone
+    if (this.fetchMode !== 'offline' && await this.isShallow()) {
+      try {
+        await this.lock.withLock(() => this.deepen(ref));
+      } catch (error) {
+        logger.debug(`Could not deepen the history to find ${ref}:`, error);
+      }
+      const deepened = await this.tryResolve(ref);
+      if (deepened) {
+        return deepened;
+      }
+    }
+
+    throw new Error(this.describeMissingRef(ref));
+  }
+
+  private async tryResolve(ref: string): Promise<string | null> {
+    try {
+      return await this.resolveBranchHead(ref);
+    } catch {
+      return null;
+    }
   }
 
-  async checkoutBranch(branch: string): Promise<void> {
-    console.log('Checking out branch:', branch);
-    await this.git.checkout(branch);
+  private describeMissingRef(ref: string): string {
+    if (this.fetchSucceeded) {
+      return `Version ${ref} not found in repository`;
+    }
+    const hint = this.fetchMode === 'offline' ? ' Run without --offline to fetch it.' : '';
+    return `Version ${ref} is not available in the cached repository (${this.describeLastFetch()}).${hint}`;
+  }
+
+  /** Number of commits in `from..to` that touch any of `paths` (relative to the repository root) */
+  async countCommitsTouching(from: string, to: string, paths: string[]): Promise<number> {
+    // A shallow clone may cut the history between the two
+    if (this.fetchMode !== 'offline' && await this.isShallow()) {
+      try {
+        await this.git.raw(['merge-base', '--is-ancestor', from, to]);
+      } catch {
+        await this.lock.withLock(() => this.deepen(from));
+      }
+    }
+    const count = await this.git.raw(['rev-list', '--count', `${from}..${to}`, '--', ...paths]);
+    return parseInt(count.trim(), 10);
+  }
+
+  /**
+   * Directory holding the files of `commit`, extracted on first use. Snapshots are immutable and
+   * are only published by renaming a complete extraction into place, so readers never see a
+   * partial tree.
+   */
+  async ensureSnapshot(commit: string): Promise<string> {
+    const snapshotPath = path.join(this.snapshotsPath, commit);
+    if (await fs.pathExists(snapshotPath)) {
+      return snapshotPath;
+    }
+    return this.lock.withLock(() => this.extractSnapshot(commit));
+  }
+
+  private async extractSnapshot(commit: string): Promise<string> {
+    const snapshotPath = path.join(this.snapshotsPath, commit);
+    if (await fs.pathExists(snapshotPath)) {
+      return snapshotPath;
+    }
+
+    logger.debug('Extracting snapshot of', commit);
+    await fs.ensureDir(this.snapshotsPath);
+    const tempPath = await fs.mkdtemp(path.join(this.snapshotsPath, '.tmp-'));
+    try {
+      // git runs with a private index so the extraction never touches the clone's own index.
+      // It is spawned directly since simple-git refuses to pass on most inherited environments.
+      // Reading the tree with -u honors the sparse checkout patterns and, in a partial clone,
+      // fetches the missing file contents in one batch.
+      const options = { cwd: this.repoPath, env: { ...process.env, ...this.authEnv, GIT_INDEX_FILE: path.join(tempPath, 'index') } };
+      const treePath = path.join(tempPath, 'tree');
+      await fs.ensureDir(treePath);
+      const authArgs = this.authConfig.flatMap(setting => ['-c', setting]);
+      await execFileAsync('git', [...authArgs, `--work-tree=${treePath}`, 'read-tree', '--reset', '-u', commit], options);
+
+      try {
+        await fs.rename(treePath, snapshotPath);
+      } catch (error) {
+        // Another process published the same snapshot first
+        if (!await fs.pathExists(snapshotPath)) {
+          throw error;
+        }
+      }
+    } finally {
+      await fs.remove(tempPath);
+    }
+
+    return snapshotPath;
   }
 
   async clearCache(): Promise<void> {
-    console.log('Clearing cache directory:', this.repoPath);
-    await fs.remove(this.repoPath);
+    logger.debug('Clearing cache directory:', this.repoPath);
+    await this.lock.withLock(async () => {
+      await fs.remove(this.repoPath);
+      await fs.remove(this.snapshotsPath);
+    });
   }
 } 
\ No newline at end of file
@@ -1,21 +1,82 @@
-import { GitConfig, GitInfo, ComponentInfo } from '../../types/index.js';
+import { CloneConfig, GitConfig, GitInfo, ComponentInfo, DependencyGraph, DownloadedComponent, DownloadResult, ImportStyle, PackageRequirement, UpstreamPackages, VersionMismatch } from '../../types/index.js';
 import { GitRepositoryService } from './git-repository.service.js';
 import { ComponentDiscoveryService } from './component-discovery.service.js';
 import { ComponentDownloadService } from './component-download.service.js';
+import { StagingService } from './staging.service.js';
+import { FilePolicyService } from './file-policy.service.js';
+import { PackageResolutionService, readUpstreamPackages } from './package-resolution.service.js';
+import { ComponentSourceService } from './component-source.service.js';
+import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
+import { logger } from '../../utils/logger.js';
+import { listFiles } from '../../utils/manifest.js';
+import { getFetchMode } from '../../utils/fetch-policy.js';
+import { isInteractive } from '../../utils/interaction.js';
+import { DEFAULT_SOURCE, SourceComponentName, formatComponentName, parseComponentName } from '../../utils/sources.js';
+
+interface GitServiceOptions {
+  importStyle?: ImportStyle;
+  /** Best-effort downloads: skip failing dependencies and write straight into the output directory */
+  keepGoing?: boolean;
+  /** Seconds to wait for another process holding the cache lock */
+  lockTimeout?: number;
+  /** Seconds after a fetch during which the cached repository is used without fetching again */
+  fetchTtl?: number;
+  clone?: CloneConfig;
+  /** Name of the source this service reads; the default source when omitted */
+  source?: string;
+  /** The other sources, for components found through `dependencySources` */
+  sources?: ComponentSourceService;
+  /** Which upstream files downloads copy */
+  filePolicy?: FilePolicyService;
+}
+
+/** A source opened at a commit for one download or dependency resolution */
+interface SourceSnapshot {
+  commit: string;
+  repoRoot: string;
+  downloadService: ComponentDownloadService;
+}
+
+interface StagedDownloadOptions {
+  /** Post-process or check the staged components directory (e.g. strip tests) before it is moved into place */
+  prepare?: (stagedOutputDir: string, result: DownloadResult) => Promise<void>;
+}
 
 export class GitService {
   private gitRepositoryService: GitRepositoryService;
-  private componentDiscoveryService: ComponentDiscoveryService;
-  private componentDownloadService: ComponentDownloadService;
   private downloadedComponents: Set<string> = new Set();
+  private downloadResults: DownloadedComponent[] = [];
+  private excludedFiles: Set<string> = new Set();
+  private sourceSnapshots: Map<string, SourceSnapshot> = new Map();
 
-  constructor(private gitConfig: GitConfig, cacheDir?: string) {
+  constructor(private gitConfig: GitConfig, cacheDir?: string, private options: GitServiceOptions = {}) {
     const resolvedCacheDir = cacheDir || path.join(os.homedir(), '.mui-bueno-cache');
-    this.gitRepositoryService = new GitRepositoryService(gitConfig, resolvedCacheDir);
-    this.componentDiscoveryService = new ComponentDiscoveryService(resolvedCacheDir);
-    this.componentDownloadService = new ComponentDownloadService(resolvedCacheDir);
+    this.gitRepositoryService = new GitRepositoryService(gitConfig, resolvedCacheDir, {
+      lockTimeout: options.lockTimeout,
+      fetchTtl: options.fetchTtl,
+      fetchMode: getFetchMode(),
+      interactive: isInteractive(),
+      clone: options.clone
+    });
+  }
+
+  get repositoryUrl(): string {
+    return this.gitConfig.repositoryUrl;
+  }
+
+  get branch(): string {
+    return this.gitConfig.branch;
+  }
+
+  get source(): string {
+    return this.options.source || DEFAULT_SOURCE;
+  }
+
+  /** Sources this source's components may take dependencies from */
+  get dependencySources(): string[] {
+    return (this.gitConfig.dependencySources || []).filter(source => source !== this.source);
   }
 
   async testConnection(): Promise<boolean> {
@@ -28,43 +89,309 @@ export class GitService {
   }
 
   async listComponents(branch?: string): Promise<ComponentInfo[]> {
-    await this.gitRepositoryService.ensureRepositoryCache(branch);
-    return this.componentDiscoveryService.listComponents();
+    const { repoRoot } = await this.openSnapshot(branch);
+    const components = await new ComponentDiscoveryService(repoRoot).listComponents();
+    return components.map(component => ({ ...component, source: this.source }));
   }
 
-  async downloadComponent(componentName: string, version?: string, outputDir: string = './components'): Promise<string> {
+  async downloadComponent(
+    componentName: string,
+    version?: string,
+    outputDir: string = './components',
+    finalOutputDir: string = outputDir
+  ): Promise<DownloadResult> {
     // Reset downloaded components tracking for new download
     this.downloadedComponents.clear();
+    this.downloadResults = [];
+    this.excludedFiles.clear();
+    this.sourceSnapshots.clear();
     
-    // Ensure we're on the right version/branch before starting
+    const { commit } = await this.openSourceSnapshot(this.source, version);
+    const extractedPath = await this.downloadComponentWithDependencies({ source: this.source, name: componentName }, outputDir, finalOutputDir);
+
+    const sources: Record<string, string> = { [this.source]: this.repositoryUrl };
+    for (const component of this.downloadResults) {
+      const source = component.source || DEFAULT_SOURCE;
+      sources[source] = this.getSourceService(source).repositoryUrl;
+    }
+
+    return {
+      extractedPath,
+      ref: version,
+      commit,
+      components: this.downloadResults,
+      sources,
+      excludedFiles: Array.from(this.excludedFiles).sort()
+    };
+  }
+
+  /**
+   * Download into a staging directory, validate it and only then move the files into the project,
+   * so a failure at any point leaves the project as it was. With `keepGoing` the download is
+   * written directly, as a best effort.
+   */
+  async downloadComponentStaged(
+    componentName: string,
+    version: string | undefined,
+    outputDir: string,
+    options: StagedDownloadOptions = {}
+  ): Promise<DownloadResult> {
+    if (this.options.keepGoing) {
+      const result = await this.downloadComponent(componentName, version, outputDir);
+      await options.prepare?.(outputDir, result);
+      return result;
+    }
+
+    const staging = new StagingService(outputDir);
+    try {
+      const stagedOutputDir = await staging.prepare();
+      const result = await this.downloadComponent(componentName, version, stagedOutputDir, path.resolve(outputDir));
+      await options.prepare?.(stagedOutputDir, result);
+      await staging.validate(result);
+      await staging.commit();
+
+      return {
+        ...result,
+        extractedPath: staging.toFinalPath(result.extractedPath),
+        components: result.components.map(component => ({ ...component, path: staging.toFinalPath(component.path) }))
+      };
+    } finally {
+      await staging.discard();
+    }
+  }
+
+  /**
+   * Resolve the full dependency graph of a component at a version without writing anything:
+   * the same components, shared files and npm packages a download would bring in.
+   */
+  async resolveDependencyGraph(componentName: string, version?: string): Promise<DependencyGraph> {
+    this.sourceSnapshots.clear();
+    const { commit } = await this.openSourceSnapshot(this.source, version);
+    const graph: DependencyGraph = { root: formatComponentName(componentName, this.source), ref: version, commit, nodes: {} };
+
+    // Nodes are keyed by source-prefixed names, as components of different sources may share a name
+    const queue: SourceComponentName[] = [{ source: this.source, name: componentName }];
+    while (queue.length > 0) {
+      const component = queue.shift()!;
+      const key = formatComponentName(component.name, component.source);
+      if (graph.nodes[key]) {
+        continue;
+      }
+
+      const { downloadService } = await this.openSourceSnapshot(component.source);
+      const { dependencies, sharedFiles, packages } = await downloadService.analyzeComponent(component.name);
+      const children = dependencies.map(dependency => toSourceComponentName(dependency, component.source));
+      graph.nodes[key] = {
+        name: key,
+        components: children.map(child => formatComponentName(child.name, child.source)),
+        sharedFiles,
+        packages
+      };
+      queue.push(...children);
+    }
+
+    return graph;
+  }
+
+  /**
+   * Compare installed components with upstream: the latest tag, the head of `branch` and how many
+   * upstream commits touched each component (or its shared files) since it was installed, keyed by
+   * source-prefixed name.
+   */
+  async getUpstreamStatus(
+    components: { name: string; commit: string; sharedFiles: string[] }[],
+    branch: string
+  ): Promise<{ gitInfo: GitInfo; headCommit: string; behind: Record<string, number | null> }> {
     await this.gitRepositoryService.ensureRepositoryCache();
-    if (version) {
-      await this.gitRepositoryService.checkoutVersion(version);
+    const gitInfo = await this.gitRepositoryService.getGitInfo();
+    const headCommit = await this.gitRepositoryService.resolveBranchHead(branch);
+
+    const behind: Record<string, number | null> = {};
+    for (const component of components) {
+      const paths = [
+        `src/components/${component.name}`,
+        ...component.sharedFiles.map(file => `src/${file}`)
+      ];
+      const key = formatComponentName(component.name, this.source);
+      try {
+        behind[key] = await this.gitRepositoryService.countCommitsTouching(component.commit, headCommit, paths);
+      } catch (error) {
+        logger.debug(`Could not compare ${key} with ${branch}:`, error);
+        behind[key] = null;
+      }
     }
 
-    return this.downloadComponentWithDependencies(componentName, outputDir);
+    return { gitInfo, headCommit, behind };
+  }
+
+  /** Version ranges and peer dependencies the repository's root package.json declares at a version */
+  async getUpstreamPackages(version?: string): Promise<UpstreamPackages> {
+    const { repoRoot } = await this.openSnapshot(version);
+    return readUpstreamPackages(path.join(repoRoot, 'package.json'));
   }
 
-  private async downloadComponentWithDependencies(componentName: string, outputDir: string): Promise<string> {
+  /**
+   * The npm packages imported by the files of a download written to `outputDir`, each with the
+   * ranges upstream declares at the commits the components were read from and the components
+   * importing it. `projectRoot` supplies the path aliases that are not packages.
+   */
+  async collectPackageRequirements(result: DownloadResult, outputDir: string, projectRoot: string): Promise<Record<string, PackageRequirement>> {
+    const resolutionService = new PackageResolutionService(projectRoot);
+    const sharedRoot = path.dirname(path.resolve(outputDir));
+    const upstreamPackages = new Map<string, UpstreamPackages>();
+    const requirements: Record<string, PackageRequirement> = {};
+
+    for (const component of result.components) {
+      // Components from another source were read at their own commit
+      const source = component.source || DEFAULT_SOURCE;
+      const version = component.commit || result.ref;
+      const key = `${source}@${version || ''}`;
+      if (!upstreamPackages.has(key)) {
+        upstreamPackages.set(key, await this.getSourceService(source).getUpstreamPackages(version));
+      }
+      const { ranges, peers } = upstreamPackages.get(key)!;
+
+      const files = [
+        ...await listFiles(component.path),
+        ...component.sharedFiles.map(file => path.join(sharedRoot, ...file.split('/')))
+      ];
+      for (const name of await resolutionService.collectImports(files)) {
+        const requirement = requirements[name] = requirements[name] || { ranges: [], peer: false, components: [] };
+        if (ranges[name] && !requirement.ranges.includes(ranges[name])) {
+          requirement.ranges.push(ranges[name]);
+        }
+        requirement.peer = requirement.peer || peers.includes(name);
+        requirement.components.push(formatComponentName(component.name, source));
+      }
+    }
+
+    return requirements;
+  }
+
+  /** MUI, React and emotion packages a download imports in another major version than the project has */
+  async findVersionMismatches(result: DownloadResult, outputDir: string, projectRoot: string): Promise<VersionMismatch[]> {
+    const requirements = await this.collectPackageRequirements(result, outputDir, projectRoot);
+    return new PackageResolutionService(projectRoot).findVersionMismatches(requirements);
+  }
+
+  /** Read a component's files at a version as they would be written by a download */
+  async getComponentFiles(componentName: string, version: string | undefined, outputDir: string): Promise<{ commit: string; files: Record<string, string> }> {
+    const { commit, repoRoot } = await this.openSnapshot(version);
+    const files = await this.createDownloadService(repoRoot).readComponentFiles(componentName, outputDir);
+    return { commit, files };
+  }
+
+  /**
+   * Fetch the repository and resolve `ref` (the configured branch by default) to a snapshot of
+   * its files. The shared clone is never checked out, so other commands are unaffected. A local
+   * working directory is read in place when `ref` is the branch it has checked out.
+   */
+  async openSnapshot(ref?: string): Promise<{ commit: string; repoRoot: string }> {
+    await this.gitRepositoryService.ensureRepositoryCache();
+    const workingTree = await this.gitRepositoryService.resolveWorkingTree(ref || this.gitConfig.branch);
+    if (workingTree) {
+      return { commit: workingTree.commit, repoRoot: workingTree.path };
+    }
+    const commit = await this.gitRepositoryService.resolveRef(ref || this.gitConfig.branch);
+    return { commit, repoRoot: await this.gitRepositoryService.ensureSnapshot(commit) };
+  }
+
+  private createDownloadService(repoRoot: string): ComponentDownloadService {
+    return new ComponentDownloadService(repoRoot, this.options.importStyle, this.options.keepGoing, undefined, this.options.filePolicy);
+  }
+
+  /**
+   * Open a source for the current download: this source at `ref`, other sources at their
+   * configured branch. Each source is opened once per download.
+   */
+  private async openSourceSnapshot(source: string, ref?: string): Promise<SourceSnapshot> {
+    let snapshot = this.sourceSnapshots.get(source);
+    if (!snapshot) {
+      const gitService = this.getSourceService(source);
+      const { commit, repoRoot } = await gitService.openSnapshot(ref);
+      const downloadService = new ComponentDownloadService(
+        repoRoot,
+        this.options.importStyle,
+        this.options.keepGoing,
+        (name) => this.findInSources(gitService.dependencySources, name),
+        this.options.filePolicy
+      );
+      snapshot = { commit, repoRoot, downloadService };
+      this.sourceSnapshots.set(source, snapshot);
+    }
+    return snapshot;
+  }
+
+  private getSourceService(source: string): GitService {
+    if (source === this.source) {
+      return this;
+    }
+    if (!this.options.sources) {
+      throw new Error(`Source ${source} is not available`);
+    }
+    return this.options.sources.get(source);
+  }
+
+  /** The first of `sources` that has the component, as `source:Category/Component`; null when none has it */
+  private async findInSources(sources: string[], componentName: string): Promise<string | null> {
+    for (const source of sources) {
+      const { repoRoot } = await this.openSourceSnapshot(source);
+      if (await fs.pathExists(path.join(repoRoot, 'src', 'components', ...componentName.split('/')))) {
+        return `${source}:${componentName}`;
+      }
+    }
+    return null;
+  }
+
+  private async downloadComponentWithDependencies(
+    component: SourceComponentName,
+    outputDir: string,
+    finalOutputDir: string
+  ): Promise<string> {
+    const key = formatComponentName(component.name, component.source);
+
     // Check for circular dependencies
-    if (this.downloadedComponents.has(componentName)) {
-      console.log(`Skipping already downloaded component: ${componentName}`);
+    if (this.downloadedComponents.has(key)) {
+      logger.debug(`Skipping already downloaded component: ${key}`);
       return '';
     }
 
+    // Components of all sources share the output directory
+    const clash = this.downloadResults.find(result => result.name === component.name);
+    if (clash) {
+      throw new Error(
+        `Component ${component.name} is needed from both ${clash.source || DEFAULT_SOURCE} and ${component.source} ` +
+        `but both would be written to the same directory`
+      );
+    }
+
     // Mark this component as being downloaded
-    this.downloadedComponents.add(componentName);
+    this.downloadedComponents.add(key);
 
     // Download the component and get its dependencies
-    const { extractedPath, dependencies } = await this.componentDownloadService.downloadComponent(componentName, outputDir);
+    const { commit, downloadService } = await this.openSourceSnapshot(component.source);
+    const { extractedPath, dependencies, sharedFiles, excludedFiles } = await downloadService.downloadComponent(component.name, outputDir, finalOutputDir);
+    excludedFiles.forEach(file => this.excludedFiles.add(formatComponentName(file, component.source)));
+    const sourceDependencies = dependencies.map(dependency => toSourceComponentName(dependency, component.source));
+    this.downloadResults.push({
+      name: component.name,
+      ...(component.source !== DEFAULT_SOURCE && { source: component.source }),
+      ...(component.source !== this.source && { commit }),
+      path: extractedPath,
+      dependencies: sourceDependencies.map(dependency => dependency.name),
+      sharedFiles
+    });
 
     // Download each dependency
-    for (const dependency of dependencies) {
-      if (!this.downloadedComponents.has(dependency)) {
-        await this.downloadComponentWithDependencies(dependency, outputDir);
-      }
+    for (const dependency of sourceDependencies) {
+      await this.downloadComponentWithDependencies(dependency, outputDir, finalOutputDir);
     }
 
     return extractedPath;
   }
+}
+
+/** Dependencies found in another source are reported as `source:name`, the others belong to `source` */
+function toSourceComponentName(dependency: string, source: string): SourceComponentName {
+  return dependency.includes(':') ? parseComponentName(dependency) : { source, name: dependency };
 } 
\ No newline at end of file
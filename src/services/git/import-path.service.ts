@@ -1,52 +1,82 @@
 import fs from 'fs-extra';
 import path from 'path';
+import { ModuleGraphService, isRelativeSpecifier } from './module-graph.service.js';
+import { PathAliasService } from './path-alias.service.js';
+
+export interface AliasRewriteContext {
+  /** Aliases from the upstream repository's tsconfig */
+  upstream: PathAliasService;
+  /** The project's own aliases; null to rewrite to relative paths */
+  project: PathAliasService | null;
+  /** The upstream repository's `src` directory */
+  sourceRoot: string;
+  /** Directory components are written to in the project; shared files go next to it */
+  outputDir: string;
+}
 
 export class ImportPathService {
+  private moduleGraphService = new ModuleGraphService();
+
   constructor() {}
 
-  updateImportPaths(content: string, componentName: string): string {
-    // Update relative imports to components
-    let updatedContent = content.replace(
-      /from\s+['"]\.\.\/([^'"]+)['"]/g,
-      (match, importPath) => {
-        // If the import path is a component path, update it
-        if (importPath.includes('/')) {
-          return `from '../${importPath}'`;
+  updateImportPaths(content: string, componentName: string, fileName: string = 'index.tsx'): string {
+    return this.moduleGraphService.rewriteImports(content, fileName, (importPath) => {
+      // Update relative imports to the same component, keeping them relative
+      if (importPath.startsWith('./') && !importPath.startsWith('./components/')) {
+        const relativePath = importPath.substring(2);
+        if (relativePath.startsWith(componentName + '/')) {
+          return `./${relativePath.substring(componentName.length + 1)}`;
         }
-        return match;
       }
-    );
-
-    // Update relative imports to the same component
-    updatedContent = updatedContent.replace(
-      /from\s+['"]\.\/((?!components\/)[^'"]+)['"]/g,
-      (match, importPath) => {
-        // If the import is from the same component directory, keep it relative
-        if (importPath.startsWith(componentName + '/')) {
-          return `from './${importPath.substring(componentName.length + 1)}'`;
-        }
-        return match;
+      return undefined;
+    });
+  }
+
+  /**
+   * Rewrite upstream alias imports (e.g. `@/components/Button/Button`) for a file that will live at
+   * `filePath` in the project: to the project's own alias when one covers the target, otherwise to
+   * a relative path.
+   */
+  async rewriteAliasImports(content: string, filePath: string, context: AliasRewriteContext): Promise<string> {
+    const replacements = new Map<string, string>();
+
+    for (const { specifier } of this.moduleGraphService.parseImports(content, filePath)) {
+      if (replacements.has(specifier) || !context.upstream.matches(specifier)) {
+        continue;
+      }
+
+      const resolved = await context.upstream.resolve(specifier);
+      const relativeToSource = resolved ? path.relative(context.sourceRoot, resolved) : '';
+      if (!resolved || relativeToSource.startsWith('..')) {
+        continue;
       }
-    );
 
-    return updatedContent;
+      // Mirror the download layout: src/components/* -> outputDir, src/* -> next to outputDir
+      const [topLevel, ...rest] = relativeToSource.split(path.sep);
+      const localPath = topLevel === 'components'
+        ? path.join(context.outputDir, ...rest)
+        : path.join(path.dirname(context.outputDir), relativeToSource);
+
+      replacements.set(specifier, context.project?.toAlias(localPath) || toRelativeSpecifier(filePath, localPath));
+    }
+
+    if (replacements.size === 0) {
+      return content;
+    }
+
+    return this.moduleGraphService.rewriteImports(content, filePath, (importPath) => replacements.get(importPath));
   }
 
   async fixImportPaths(componentPath: string, componentName: string): Promise<void> {
     const files = await this.findAllFiles(componentPath);
 
     for (const file of files) {
-      let content = await fs.readFile(file, 'utf-8');
-      const imports = this.extractImports(content);
+      const content = await fs.readFile(file, 'utf-8');
+      const updatedContent = this.moduleGraphService.rewriteImports(content, file, (importPath) =>
+        isRelativeSpecifier(importPath) ? this.calculateNewImportPath(importPath, componentName) : undefined
+      );
 
-      for (const importPath of imports) {
-        const newPath = this.calculateNewImportPath(importPath, componentName);
-        if (newPath !== importPath) {
-          content = this.replaceImportPath(content, importPath, newPath);
-        }
-      }
-
-      await fs.writeFile(file, content);
+      await fs.writeFile(file, updatedContent);
     }
   }
 
@@ -66,19 +96,6 @@ export class ImportPathService {
     return files;
   }
 
-  private extractImports(content: string): string[] {
-    const imports: string[] = [];
-    const importRegex = /from\s+['"](\.[^'"]+)['"]/g;
-    let match;
-
-    while ((match = importRegex.exec(content)) !== null) {
-      const importPath = match[1];
-      imports.push(importPath);
-    }
-
-    return imports;
-  }
-
   private calculateNewImportPath(importPath: string, componentName: string): string {
     // If the import path starts with '../components/', update it to be relative to the current component
     if (importPath.startsWith('../components/')) {
@@ -89,10 +106,9 @@ export class ImportPathService {
     }
     return importPath;
   }
+}
 
-  private replaceImportPath(content: string, oldPath: string, newPath: string): string {
-    const escapedOldPath = oldPath.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-    const importRegex = new RegExp(`(from\\s+['"])${escapedOldPath}(['"])`, 'g');
-    return content.replace(importRegex, `$1${newPath}$2`);
-  }
-} 
\ No newline at end of file
+function toRelativeSpecifier(fromFile: string, toPath: string): string {
+  const relative = path.relative(path.dirname(fromFile), toPath).split(path.sep).join('/');
+  return relative.startsWith('.') ? relative : `./${relative}`;
+}
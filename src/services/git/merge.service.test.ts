@@ -0,0 +1,44 @@
+import { MergeService } from './merge.service.js';
+
+const lines = (...values: string[]): string => values.map(value => `${value}\n`).join('');
+
+describe('MergeService', () => {
+  const mergeService = new MergeService();
+
+  it('combines local and upstream edits to different lines', async () => {
+    const base = lines('one', 'two', 'three', 'four', 'five');
+    const local = lines('one', 'two (local)', 'three', 'four', 'five');
+    const upstream = lines('one', 'two', 'three', 'four', 'five (upstream)');
+
+    const result = await mergeService.mergeFile(local, base, upstream);
+
+    expect(result).toEqual({ content: lines('one', 'two (local)', 'three', 'four', 'five (upstream)'), conflicts: 0 });
+  });
+
+  it('writes conflict markers with the labels for edits to the same line', async () => {
+    const base = lines('one', 'two', 'three');
+    const local = lines('one', 'two (local)', 'three');
+    const upstream = lines('one', 'two (upstream)', 'three');
+
+    const result = await mergeService.mergeFile(local, base, upstream, { current: 'mine', base: 'base (abc1234)', incoming: 'theirs (main)' });
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toBe(lines('one', '<<<<<<< mine', 'two (local)', '=======', 'two (upstream)', '>>>>>>> theirs (main)', 'three'));
+  });
+
+  it('counts each conflicting hunk', async () => {
+    const base = lines('a', '1', '2', '3', '4', 'b');
+    const local = lines('a (local)', '1', '2', '3', '4', 'b (local)');
+    const upstream = lines('a (upstream)', '1', '2', '3', '4', 'b (upstream)');
+
+    expect((await mergeService.mergeFile(local, base, upstream)).conflicts).toBe(2);
+  });
+
+  it('treats a file added on both sides as a merge against an empty base', async () => {
+    const result = await mergeService.mergeFile(lines('local'), '', lines('upstream'));
+
+    expect(result.conflicts).toBe(1);
+    expect(result.content).toContain('<<<<<<< local');
+    expect(result.content).toContain('>>>>>>> upstream');
+  });
+});
@@ -0,0 +1,72 @@
+import fs from 'fs-extra';
+import path from 'path';
+import os from 'os';
+import { spawn } from 'child_process';
+
+export interface MergeResult {
+  content: string;
+  conflicts: number;
+}
+
+interface MergeLabels {
+  current: string;
+  base: string;
+  incoming: string;
+}
+
+export class MergeService {
+  constructor() {}
+
+  /**
+   * Three-way merge of a single file using `git merge-file`. Conflicting hunks are written with
+   * standard conflict markers; `conflicts` is the number of conflicting hunks.
+   */
+  async mergeFile(
+    current: string,
+    base: string,
+    incoming: string,
+    labels: MergeLabels = { current: 'local', base: 'base', incoming: 'upstream' }
+  ): Promise<MergeResult> {
+    const tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-merge-'));
+
+    try {
+      const currentPath = path.join(tmpDir, 'current');
+      const basePath = path.join(tmpDir, 'base');
+      const incomingPath = path.join(tmpDir, 'incoming');
+
+      await Promise.all([
+        fs.writeFile(currentPath, current),
+        fs.writeFile(basePath, base),
+        fs.writeFile(incomingPath, incoming)
+      ]);
+
+      const { stdout, code } = await runGit([
+        'merge-file', '-p',
+        '-L', labels.current, '-L', labels.base, '-L', labels.incoming,
+        currentPath, basePath, incomingPath
+      ]);
+
+      // git merge-file exits with the number of conflicts, or a negative value (>127) on error
+      if (code < 0 || code > 127) {
+        throw new Error(`git merge-file failed with code ${code}`);
+      }
+
+      return { content: stdout, conflicts: code };
+    } finally {
+      await fs.remove(tmpDir);
+    }
+  }
+}
+
+function runGit(args: string[]): Promise<{ stdout: string; code: number }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args);
+    const chunks: Buffer[] = [];
+
+    child.stdout.on('data', (chunk: Buffer) => chunks.push(chunk));
+    child.on('error', reject);
+    child.on('close', (code) => {
+      resolve({ stdout: Buffer.concat(chunks).toString('utf-8'), code: code ?? -1 });
+    });
+  });
+}
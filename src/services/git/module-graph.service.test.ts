@@ -0,0 +1,92 @@
+import { ModuleGraphService, getPackageName, isRelativeSpecifier } from './module-graph.service.js';
+
+describe('ModuleGraphService', () => {
+  const moduleGraphService = new ModuleGraphService();
+
+  it('finds every import form with its kind', () => {
+    const content = [
+      "import React from 'react';",
+      "import type { Theme } from '@mui/material/styles';",
+      "import './Button.css';",
+      "export { Icon } from '../Icon/Icon';",
+      "export type { IconProps } from '../Icon/types';",
+      "import legacy = require('./legacy');",
+      "type Lazy = typeof import('./Lazy');",
+      "const Dialog = React.lazy(() => import('../Dialog/Dialog'));",
+      "const utils = require('../../common/utils');"
+    ].join('\n');
+
+    expect(moduleGraphService.parseImports(content, 'Button.tsx').map(({ specifier, kind }) => [specifier, kind])).toEqual([
+      ['react', 'import'],
+      ['@mui/material/styles', 'import-type'],
+      ['./Button.css', 'side-effect'],
+      ['../Icon/Icon', 'export'],
+      ['../Icon/types', 'import-type'],
+      ['./legacy', 'require'],
+      ['./Lazy', 'import-type'],
+      ['../Dialog/Dialog', 'dynamic'],
+      ['../../common/utils', 'require']
+    ]);
+  });
+
+  it('ignores imports inside comments and strings', () => {
+    const content = [
+      "// import { Old } from './Old';",
+      "/* export * from './Deprecated'; */",
+      "const example = \"import x from './Example'\";",
+      "import { Button } from './Button';"
+    ].join('\n');
+
+    expect(moduleGraphService.getLocalImports(content, 'index.ts')).toEqual(['./Button']);
+  });
+
+  it('parses JSX in .tsx files', () => {
+    const content = "import { Box } from '@mui/material';\nexport const Card = () => <Box>{'import nothing'}</Box>;";
+
+    expect(moduleGraphService.getPackageImports(content, 'Card.tsx')).toEqual(['@mui/material']);
+  });
+
+  it('rewrites specifiers in place, keeping quotes and formatting', () => {
+    const content = "import { Button } from \"../Button/Button\";\nimport styles from './styles'; // keep\nconst Lazy = import('../Button/Lazy');";
+
+    const rewritten = moduleGraphService.rewriteImports(content, 'Form.tsx', specifier =>
+      specifier.startsWith('../Button/') ? specifier.replace('../Button/', '@/components/Button/') : undefined
+    );
+
+    expect(rewritten).toBe("import { Button } from \"@/components/Button/Button\";\nimport styles from './styles'; // keep\nconst Lazy = import('@/components/Button/Lazy');");
+  });
+
+  it('lists package imports without duplicates, builtins or aliases', () => {
+    const content = [
+      "import Button from '@mui/material/Button';",
+      "import { styled } from '@mui/material/styles';",
+      "import fs from 'fs';",
+      "import path from 'node:path';",
+      "import { theme } from '@/theme';",
+      "import clsx from 'clsx';"
+    ].join('\n');
+
+    expect(moduleGraphService.getPackageImports(content, 'Button.ts', specifier => specifier.startsWith('@/'))).toEqual(['@mui/material', 'clsx']);
+  });
+});
+
+describe('getPackageName', () => {
+  it('reduces deep imports to the package name', () => {
+    expect(getPackageName('@mui/material/Button')).toBe('@mui/material');
+    expect(getPackageName('lodash/debounce')).toBe('lodash');
+  });
+
+  it('returns null for relative paths and node builtins', () => {
+    expect(getPackageName('./Button')).toBeNull();
+    expect(getPackageName('/abs/path')).toBeNull();
+    expect(getPackageName('node:fs')).toBeNull();
+    expect(getPackageName('path')).toBeNull();
+  });
+});
+
+describe('isRelativeSpecifier', () => {
+  it('matches only dot-relative specifiers', () => {
+    expect(['.', '..', './a', '../a'].every(isRelativeSpecifier)).toBe(true);
+    expect(['.prettierrc', 'react', '@/a', '~/a'].some(isRelativeSpecifier)).toBe(false);
+  });
+});
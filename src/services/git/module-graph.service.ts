@@ -0,0 +1,134 @@
+import path from 'path';
+import { builtinModules } from 'module';
+import ts from 'typescript';
+
+export type ImportKind = 'import' | 'import-type' | 'side-effect' | 'export' | 'dynamic' | 'require';
+
+export interface ModuleImport {
+  specifier: string;
+  kind: ImportKind;
+  /** Offsets of the specifier's string literal (including quotes) in the source text */
+  start: number;
+  end: number;
+}
+
+const BUILTIN_MODULES = new Set(builtinModules);
+
+/**
+ * Finds module references using the TypeScript parser, so every import form is covered and
+ * text inside comments or strings is never mistaken for an import.
+ */
+export class ModuleGraphService {
+  constructor() {}
+
+  parseImports(content: string, fileName: string): ModuleImport[] {
+    const sourceFile = ts.createSourceFile(fileName, content, ts.ScriptTarget.Latest, true, getScriptKind(fileName));
+    const imports: ModuleImport[] = [];
+
+    const add = (literal: ts.Node | undefined, kind: ImportKind) => {
+      if (literal && ts.isStringLiteralLike(literal)) {
+        imports.push({ specifier: literal.text, kind, start: literal.getStart(sourceFile), end: literal.getEnd() });
+      }
+    };
+
+    const visit = (node: ts.Node): void => {
+      if (ts.isImportDeclaration(node)) {
+        const clause = node.importClause;
+        add(node.moduleSpecifier, !clause ? 'side-effect' : clause.isTypeOnly ? 'import-type' : 'import');
+      } else if (ts.isExportDeclaration(node)) {
+        add(node.moduleSpecifier, node.isTypeOnly ? 'import-type' : 'export');
+      } else if (ts.isImportEqualsDeclaration(node) && ts.isExternalModuleReference(node.moduleReference)) {
+        add(node.moduleReference.expression, node.isTypeOnly ? 'import-type' : 'require');
+      } else if (ts.isImportTypeNode(node) && ts.isLiteralTypeNode(node.argument)) {
+        add(node.argument.literal, 'import-type');
+      } else if (ts.isCallExpression(node) && node.arguments.length >= 1) {
+        if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+          add(node.arguments[0], 'dynamic');
+        } else if (ts.isIdentifier(node.expression) && node.expression.text === 'require' && node.arguments.length === 1) {
+          add(node.arguments[0], 'require');
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return imports;
+  }
+
+  /**
+   * Replace module specifiers in place. `rewrite` returns the new specifier, or undefined to keep
+   * the original. Quote style and all surrounding formatting are preserved.
+   */
+  rewriteImports(content: string, fileName: string, rewrite: (specifier: string, kind: ImportKind) => string | undefined): string {
+    const imports = this.parseImports(content, fileName).sort((a, b) => b.start - a.start);
+    let updated = content;
+
+    for (const moduleImport of imports) {
+      const replacement = rewrite(moduleImport.specifier, moduleImport.kind);
+      if (replacement === undefined || replacement === moduleImport.specifier) {
+        continue;
+      }
+      const quote = content[moduleImport.start];
+      updated = updated.slice(0, moduleImport.start) + quote + replacement + quote + updated.slice(moduleImport.end);
+    }
+
+    return updated;
+  }
+
+  /** Relative specifiers (`./x`, `../x`) referenced by the file, without duplicates */
+  getLocalImports(content: string, fileName: string): string[] {
+    return unique(this.parseImports(content, fileName).map(i => i.specifier).filter(isRelativeSpecifier));
+  }
+
+  /**
+   * npm package names referenced by the file, node builtins excluded. `isAlias` filters out
+   * specifiers that are path aliases rather than packages (e.g. `@/components/...`).
+   */
+  getPackageImports(content: string, fileName: string, isAlias?: (specifier: string) => boolean): string[] {
+    return unique(
+      this.parseImports(content, fileName)
+        .filter(i => !isAlias?.(i.specifier))
+        .map(i => getPackageName(i.specifier))
+        .filter((name): name is string => name !== null)
+    );
+  }
+}
+
+export function isRelativeSpecifier(specifier: string): boolean {
+  return specifier === '.' || specifier === '..' || specifier.startsWith('./') || specifier.startsWith('../');
+}
+
+/** Package name for a bare specifier (`@mui/material/Button` → `@mui/material`), null otherwise */
+export function getPackageName(specifier: string): string | null {
+  if (isRelativeSpecifier(specifier) || specifier.startsWith('/') || specifier.startsWith('node:')) {
+    return null;
+  }
+
+  const segments = specifier.split('/');
+  const name = specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+  if (!name || BUILTIN_MODULES.has(name)) {
+    return null;
+  }
+
+  return name;
+}
+
+function getScriptKind(fileName: string): ts.ScriptKind {
+  switch (path.extname(fileName).toLowerCase()) {
+    case '.tsx':
+      return ts.ScriptKind.TSX;
+    case '.jsx':
+      return ts.ScriptKind.JSX;
+    case '.js':
+    case '.mjs':
+    case '.cjs':
+      return ts.ScriptKind.JS;
+    default:
+      return ts.ScriptKind.TS;
+  }
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,193 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { PackageManagerService } from './package-manager.service.js';
+import { CliError, ExitCode } from '../../utils/errors.js';
+import { InstallTarget, PackageManagerInfo } from '../../types/index.js';
+
+describe('PackageManagerService', () => {
+  let root: string;
+  let service: PackageManagerService;
+
+  const writeJson = (file: string, content: object) => fs.outputJson(path.join(root, ...file.split('/')), content);
+  const write = (file: string, content: string = '') => fs.outputFile(path.join(root, ...file.split('/')), content);
+
+  /** A workspace with the member `packages/app` (named `@acme/app`) */
+  const createWorkspace = async () => {
+    await writeJson('package.json', { name: 'acme', private: true, workspaces: ['packages/*'] });
+    await writeJson('packages/app/package.json', { name: '@acme/app', private: true });
+  };
+
+  beforeEach(async () => {
+    root = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-pm-')));
+    service = new PackageManagerService(root);
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  describe('findInstallTarget', () => {
+    it('uses the package.json closest to the download directory', async () => {
+      await writeJson('package.json', { name: 'app', private: true });
+
+      expect(await service.findInstallTarget('src/components')).toEqual({ packageDir: root, packageName: 'app', library: false });
+    });
+
+    it('finds the workspace a member package belongs to', async () => {
+      await createWorkspace();
+
+      expect(await service.findInstallTarget('packages/app/src/components')).toEqual({
+        packageDir: path.join(root, 'packages', 'app'),
+        packageName: '@acme/app',
+        workspaceRoot: root,
+        library: false
+      });
+    });
+
+    it('recognizes a pnpm workspace by pnpm-workspace.yaml', async () => {
+      await writeJson('package.json', { name: 'acme', private: true });
+      await write('pnpm-workspace.yaml', "packages:\n  - 'packages/*'\n");
+      await writeJson('packages/app/package.json', {});
+
+      expect((await service.findInstallTarget('packages/app/src')).workspaceRoot).toBe(root);
+    });
+
+    it('treats published packages as libraries', async () => {
+      await writeJson('package.json', { name: 'ui-kit', main: 'dist/index.js' });
+      expect((await service.findInstallTarget('src')).library).toBe(true);
+
+      await writeJson('package.json', { name: 'ui-kit', private: true, peerDependencies: { react: '^18.0.0' } });
+      expect((await service.findInstallTarget('src')).library).toBe(false);
+    });
+  });
+
+  describe('detect', () => {
+    const target = (): InstallTarget => ({ packageDir: root, library: false });
+
+    it.each([
+      ['pnpm-lock.yaml', 'pnpm'],
+      ['bun.lockb', 'bun'],
+      ['yarn.lock', 'yarn'],
+      ['package-lock.json', 'npm']
+    ])('detects the package manager from %s', async (lockfile, name) => {
+      await writeJson('package.json', {});
+      await write(lockfile);
+
+      expect(await service.detect(target())).toEqual({ name, berry: false, detectedFrom: lockfile });
+    });
+
+    it('prefers the packageManager field over lockfiles', async () => {
+      await writeJson('package.json', { packageManager: 'pnpm@8.15.0' });
+      await write('package-lock.json');
+
+      expect(await service.detect(target())).toEqual({ name: 'pnpm', berry: false, detectedFrom: 'packageManager "pnpm@8.15.0"' });
+    });
+
+    it('finds the lockfile at the workspace root from a member', async () => {
+      await createWorkspace();
+      await write('yarn.lock', '__metadata:\n  version: 6\n');
+
+      const detected = await service.detect(await service.findInstallTarget('packages/app/src'));
+
+      expect(detected).toEqual({ name: 'yarn', berry: true, detectedFrom: 'yarn.lock' });
+    });
+
+    it('tells yarn berry from yarn classic', async () => {
+      await writeJson('package.json', { packageManager: 'yarn@1.22.19' });
+      expect((await service.detect(target())).berry).toBe(false);
+
+      await writeJson('package.json', { packageManager: 'yarn@4.1.0' });
+      expect((await service.detect(target())).berry).toBe(true);
+
+      await writeJson('package.json', {});
+      await write('yarn.lock');
+      await write('.yarnrc.yml', 'nodeLinker: node-modules\n');
+      expect((await service.detect(target())).berry).toBe(true);
+    });
+
+    it('falls back to npm and honors an override', async () => {
+      await writeJson('package.json', {});
+      await write('yarn.lock');
+
+      expect(await service.detect(target(), 'bun')).toEqual({ name: 'bun', berry: false, detectedFrom: '--package-manager' });
+      await fs.remove(path.join(root, 'yarn.lock'));
+      expect(await service.detect(target())).toEqual({ name: 'npm', berry: false, detectedFrom: 'default' });
+    });
+
+    it('rejects an unknown package manager', async () => {
+      const detection = service.detect(target(), 'deno');
+
+      await expect(detection).rejects.toThrow(CliError);
+      await expect(detection).rejects.toMatchObject({ exitCode: ExitCode.InvalidConfig });
+    });
+  });
+
+  describe('getAddCommands', () => {
+    const manager = (name: PackageManagerInfo['name'], berry: boolean = false): PackageManagerInfo => ({ name, berry, detectedFrom: 'test' });
+    const member = (): InstallTarget => ({ packageDir: path.join(root, 'packages', 'app'), packageName: '@acme/app', workspaceRoot: root, library: false });
+    const entries = [{ name: 'clsx', spec: 'clsx@^2.0.0' }];
+
+    it('adds to a workspace member from the workspace root', () => {
+      expect(service.getAddCommands(manager('npm'), member(), entries)).toEqual([
+        { command: 'npm', args: ['install', 'clsx@^2.0.0', '--workspace', '@acme/app'], cwd: root }
+      ]);
+      expect(service.getAddCommands(manager('pnpm'), member(), entries)).toEqual([
+        { command: 'pnpm', args: ['--filter', '@acme/app', 'add', 'clsx@^2.0.0'], cwd: root }
+      ]);
+      expect(service.getAddCommands(manager('yarn'), member(), entries)).toEqual([
+        { command: 'yarn', args: ['workspace', '@acme/app', 'add', 'clsx@^2.0.0'], cwd: root }
+      ]);
+      expect(service.getAddCommands(manager('bun'), member(), entries)).toEqual([
+        { command: 'bun', args: ['add', 'clsx@^2.0.0'], cwd: path.join(root, 'packages', 'app') }
+      ]);
+    });
+
+    it('addresses an unnamed member by its path', () => {
+      const unnamed = { ...member(), packageName: undefined };
+
+      expect(service.getAddCommands(manager('npm'), unnamed, entries)[0].args).toEqual(['install', 'clsx@^2.0.0', '--workspace', './packages/app']);
+    });
+
+    it('passes the workspace root flag where the package manager needs one', () => {
+      const workspaceRoot: InstallTarget = { packageDir: root, workspaceRoot: root, library: false };
+
+      expect(service.getAddCommands(manager('pnpm'), workspaceRoot, entries)[0].args).toEqual(['add', 'clsx@^2.0.0', '-w']);
+      expect(service.getAddCommands(manager('yarn'), workspaceRoot, entries)[0].args).toEqual(['add', 'clsx@^2.0.0', '-W']);
+      expect(service.getAddCommands(manager('yarn', true), workspaceRoot, entries)[0].args).toEqual(['add', 'clsx@^2.0.0']);
+    });
+
+    it('adds peer dependencies separately, only in libraries', () => {
+      const library: InstallTarget = { packageDir: root, library: true };
+      const withPeer = [...entries, { name: 'react', spec: 'react@^18.0.0', peer: true }];
+
+      expect(service.getAddCommands(manager('npm'), library, withPeer)).toEqual([
+        { command: 'npm', args: ['install', 'clsx@^2.0.0'], cwd: root },
+        { command: 'npm', args: ['install', 'react@^18.0.0', '--save-peer'], cwd: root }
+      ]);
+      expect(service.getAddCommands(manager('yarn'), { ...library, library: false }, withPeer)).toEqual([
+        { command: 'yarn', args: ['add', 'clsx@^2.0.0', 'react@^18.0.0'], cwd: root }
+      ]);
+    });
+  });
+
+  describe('writePackageJson', () => {
+    it('adds the ranges, keeping other fields and sorting the dependencies', async () => {
+      await writeJson('package.json', { name: 'ui-kit', main: 'index.js', dependencies: { zod: '^3.0.0' }, scripts: { build: 'tsc' } });
+
+      await service.writePackageJson({ packageDir: root, library: true }, [
+        { name: 'clsx', spec: 'clsx@^2.0.0', range: '^2.0.0' },
+        { name: 'react', spec: 'react@^18.0.0', range: '^18.0.0', peer: true },
+        { name: 'date-fns', spec: 'date-fns' }
+      ]);
+
+      expect(await fs.readJson(path.join(root, 'package.json'))).toEqual({
+        name: 'ui-kit',
+        main: 'index.js',
+        dependencies: { clsx: '^2.0.0', zod: '^3.0.0' },
+        scripts: { build: 'tsc' },
+        peerDependencies: { react: '^18.0.0' }
+      });
+    });
+  });
+});
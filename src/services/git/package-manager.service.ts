@@ -0,0 +1,228 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { spawn } from 'child_process';
+import { CliError, ExitCode } from '../../utils/errors.js';
+import { toPosix } from '../../utils/manifest.js';
+import { InstallTarget, PackageManagerInfo, PackageManagerName } from '../../types/index.js';
+
+const PACKAGE_MANAGERS: PackageManagerName[] = ['npm', 'yarn', 'pnpm', 'bun'];
+
+/** Lockfiles in the order they are checked; a directory with several is taken to use the first */
+const LOCKFILES: Array<[string, PackageManagerName]> = [
+  ['pnpm-lock.yaml', 'pnpm'],
+  ['bun.lock', 'bun'],
+  ['bun.lockb', 'bun'],
+  ['yarn.lock', 'yarn'],
+  ['package-lock.json', 'npm'],
+  ['npm-shrinkwrap.json', 'npm']
+];
+
+/** Fields that mark a package as published rather than an application */
+const LIBRARY_FIELDS = ['main', 'module', 'exports', 'types', 'typings'];
+
+/** The package.json fields read here; the others are written back as they were */
+interface PackageJson {
+  name?: string;
+  private?: boolean;
+  packageManager?: string;
+  workspaces?: string[] | { packages?: string[] };
+  dependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  [field: string]: unknown;
+}
+
+export interface PackageCommand {
+  command: string;
+  args: string[];
+  cwd: string;
+}
+
+/** A package to add and how: `peer` packages go to peerDependencies */
+export interface PackageEntry {
+  name: string;
+  spec: string;
+  range?: string;
+  peer?: boolean;
+}
+
+/**
+ * Installs packages the way the project does: with the package manager its lockfile or
+ * `packageManager` field names, into the workspace package that owns the download directory.
+ */
+export class PackageManagerService {
+  constructor(private projectRoot: string = process.cwd()) {}
+
+  /** The package.json owning `outputDir` and the workspace it belongs to, if any */
+  async findInstallTarget(outputDir: string): Promise<InstallTarget> {
+    const packageDir = await findUp(path.resolve(this.projectRoot, outputDir), dir => fs.pathExists(path.join(dir, 'package.json')))
+      || path.resolve(this.projectRoot);
+    const packageJson = await readPackageJson(packageDir);
+
+    const workspaceRoot = await findUp(packageDir, isWorkspaceRoot);
+    const library = packageJson.private !== true
+      && (LIBRARY_FIELDS.some(field => packageJson[field]) || !!packageJson.peerDependencies);
+
+    return {
+      packageDir,
+      ...(packageJson.name && { packageName: packageJson.name }),
+      ...(workspaceRoot && { workspaceRoot }),
+      library
+    };
+  }
+
+  /**
+   * The package manager from the nearest `packageManager` field or lockfile above the package,
+   * npm when there is neither. `override` (--package-manager) only replaces the name.
+   */
+  async detect(target: InstallTarget, override?: string): Promise<PackageManagerInfo> {
+    if (override && !PACKAGE_MANAGERS.includes(override as PackageManagerName)) {
+      throw new CliError(`Unknown package manager "${override}". Use one of: ${PACKAGE_MANAGERS.join(', ')}`, ExitCode.InvalidConfig);
+    }
+
+    let detected: { name: PackageManagerName; version?: string; dir: string; detectedFrom: string } | undefined;
+    await findUp(target.packageDir, async (dir) => {
+      const field = (await readPackageJson(dir)).packageManager;
+      const [name, version] = (field || '').split('@');
+      if (PACKAGE_MANAGERS.includes(name as PackageManagerName)) {
+        detected = { name: name as PackageManagerName, version, dir, detectedFrom: `packageManager "${field}"` };
+        return true;
+      }
+
+      for (const [lockfile, manager] of LOCKFILES) {
+        if (await fs.pathExists(path.join(dir, lockfile))) {
+          detected = { name: manager, dir, detectedFrom: lockfile };
+          return true;
+        }
+      }
+      return false;
+    });
+
+    const name = (override as PackageManagerName) || detected?.name || 'npm';
+    const detectedFrom = override ? '--package-manager' : detected?.detectedFrom || 'default';
+    const berry = name === 'yarn' && await isYarnBerry(detected?.dir || target.workspaceRoot || target.packageDir, detected?.version);
+    return { name, berry, detectedFrom };
+  }
+
+  /** Commands adding `entries` to the target package; peer dependencies only go to peerDependencies in libraries */
+  getAddCommands(manager: PackageManagerInfo, target: InstallTarget, entries: PackageEntry[]): PackageCommand[] {
+    const peers = target.library ? entries.filter(entry => entry.peer) : [];
+    const dependencies = entries.filter(entry => !peers.includes(entry));
+
+    return [
+      { specs: dependencies.map(entry => entry.spec), flags: [] },
+      { specs: peers.map(entry => entry.spec), flags: [manager.name === 'yarn' || manager.name === 'bun' ? '--peer' : '--save-peer'] }
+    ]
+      .filter(({ specs }) => specs.length > 0)
+      .map(({ specs, flags }) => this.buildCommand(manager, target, manager.name === 'npm' ? 'install' : 'add', [...specs, ...flags]));
+  }
+
+  /** The command installing whatever package.json declares */
+  getInstallCommand(manager: PackageManagerInfo, target: InstallTarget): PackageCommand {
+    // A workspace installs from its root
+    return { command: manager.name, args: ['install'], cwd: target.workspaceRoot || target.packageDir };
+  }
+
+  /** Add the entries' ranges to the target's package.json without installing anything */
+  async writePackageJson(target: InstallTarget, entries: PackageEntry[]): Promise<string> {
+    const packageJsonPath = path.join(target.packageDir, 'package.json');
+    const packageJson = await readPackageJson(target.packageDir);
+
+    for (const entry of entries) {
+      if (!entry.range) {
+        continue;
+      }
+      const field = target.library && entry.peer ? 'peerDependencies' : 'dependencies';
+      packageJson[field] = sortKeys({ ...packageJson[field], [entry.name]: entry.range });
+    }
+
+    await fs.writeJson(packageJsonPath, packageJson, { spaces: 2 });
+    return packageJsonPath;
+  }
+
+  /** Run a package manager command; its output goes to `stdout` */
+  run({ command, args, cwd }: PackageCommand, stdout: 'inherit' | NodeJS.WriteStream = 'inherit'): Promise<void> {
+    // Package managers are batch files on Windows, which only run through a shell
+    const shell = process.platform === 'win32';
+    return new Promise((resolve, reject) => {
+      const child = spawn(command, shell ? args.map(quoteForCmd) : args, { cwd, stdio: ['inherit', stdout, 'inherit'], shell });
+      child.on('error', reject);
+      child.on('close', (code) => {
+        if (code === 0) {
+          resolve();
+        } else {
+          reject(new Error(`${command} ${args[0]} failed with code ${code}`));
+        }
+      });
+    });
+  }
+
+  private buildCommand(manager: PackageManagerInfo, target: InstallTarget, verb: string, args: string[]): PackageCommand {
+    const { workspaceRoot, packageName, packageDir } = target;
+    if (workspaceRoot === packageDir) {
+      // pnpm and yarn classic refuse to add to a workspace root unless told to
+      const rootFlag = manager.name === 'pnpm' ? ['-w'] : manager.name === 'yarn' && !manager.berry ? ['-W'] : [];
+      return { command: manager.name, args: [verb, ...args, ...rootFlag], cwd: packageDir };
+    }
+    if (!workspaceRoot || manager.name === 'bun') {
+      // bun finds the workspace root itself
+      return { command: manager.name, args: [verb, ...args], cwd: packageDir };
+    }
+
+    // Members without a name are addressed by their path
+    const member = packageName || `./${toPosix(path.relative(workspaceRoot, packageDir))}`;
+    switch (manager.name) {
+      case 'pnpm':
+        return { command: 'pnpm', args: ['--filter', member, verb, ...args], cwd: workspaceRoot };
+      case 'yarn':
+        return packageName
+          ? { command: 'yarn', args: ['workspace', packageName, verb, ...args], cwd: workspaceRoot }
+          : { command: 'yarn', args: [verb, ...args], cwd: packageDir };
+      case 'npm':
+      default:
+        return { command: 'npm', args: [verb, ...args, '--workspace', member], cwd: workspaceRoot };
+    }
+  }
+}
+
+/** The first directory from `dir` up to the filesystem root that matches */
+async function findUp(dir: string, matches: (dir: string) => Promise<boolean>): Promise<string | undefined> {
+  let current = dir;
+  while (true) {
+    if (await matches(current)) {
+      return current;
+    }
+    if (path.dirname(current) === current) {
+      return undefined;
+    }
+    current = path.dirname(current);
+  }
+}
+
+async function readPackageJson(dir: string): Promise<PackageJson> {
+  const packageJsonPath = path.join(dir, 'package.json');
+  return await fs.pathExists(packageJsonPath) ? fs.readJson(packageJsonPath) : {};
+}
+
+async function isWorkspaceRoot(dir: string): Promise<boolean> {
+  return await fs.pathExists(path.join(dir, 'pnpm-workspace.yaml')) || !!(await readPackageJson(dir)).workspaces;
+}
+
+/** Yarn 2+ is pinned to a major above 1, or leaves a `.yarnrc.yml` or a lockfile with `__metadata` */
+async function isYarnBerry(dir: string, version?: string): Promise<boolean> {
+  if (version) {
+    return parseInt(version, 10) > 1;
+  }
+  if (await fs.pathExists(path.join(dir, '.yarnrc.yml'))) {
+    return true;
+  }
+  const lockfilePath = path.join(dir, 'yarn.lock');
+  return await fs.pathExists(lockfilePath) && (await fs.readFile(lockfilePath, 'utf-8')).includes('__metadata:');
+}
+
+function sortKeys(record: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+function quoteForCmd(arg: string): string {
+  return /[\s<>|^&"]/.test(arg) ? `"${arg.replace(/"/g, '""')}"` : arg;
+}
@@ -0,0 +1,188 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { PackageResolutionService, readDependencyRanges, readUpstreamPackages } from './package-resolution.service.js';
+import { PackageRequirement } from '../../types/index.js';
+
+describe('PackageResolutionService', () => {
+  let project: string;
+
+  const requirement = (ranges: string[], peer: boolean = false): PackageRequirement => ({ ranges, peer, components: ['Button'] });
+  const install = (name: string, version: string) =>
+    fs.outputJson(path.join(project, 'node_modules', ...name.split('/'), 'package.json'), { name, version });
+
+  beforeEach(async () => {
+    project = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-packages-')));
+  });
+
+  afterEach(async () => {
+    await fs.remove(project);
+  });
+
+  describe('collectImports', () => {
+    it('collects the packages imported by source files, skipping the project aliases', async () => {
+      await fs.outputJson(path.join(project, 'tsconfig.json'), { compilerOptions: { baseUrl: '.', paths: { '@/*': ['src/*'] } } });
+      const files = [path.join(project, 'Button.tsx'), path.join(project, 'styles.css'), path.join(project, 'missing.ts')];
+      await fs.outputFile(files[0], "import { Box } from '@mui/material/Box';\nimport { theme } from '@/theme';\nimport clsx from 'clsx';");
+      await fs.outputFile(files[1], "@import 'normalize.css';");
+
+      expect(await new PackageResolutionService(project).collectImports(files)).toEqual(['@mui/material', 'clsx']);
+    });
+  });
+
+  describe('resolve', () => {
+    it('installs missing packages at the upstream range', async () => {
+      const [resolution] = await new PackageResolutionService(project).resolve({ '@mui/material': requirement(['^5.15.0']) });
+
+      expect(resolution).toEqual({ name: '@mui/material', ranges: ['^5.15.0'], action: 'install', spec: '@mui/material@^5.15.0', range: '^5.15.0' });
+    });
+
+    it('combines ranges from several sources into one spec', async () => {
+      const [resolution] = await new PackageResolutionService(project).resolve({ clsx: requirement(['^2.0.0', '>=2.1.0']) });
+
+      expect(resolution).toMatchObject({ action: 'install', spec: 'clsx@^2.0.0 >=2.1.0', range: '^2.0.0 >=2.1.0' });
+    });
+
+    it('reports ranges upstream declares that cannot both be met', async () => {
+      const [resolution] = await new PackageResolutionService(project).resolve({ clsx: requirement(['^1.2.0', '^2.0.0']) });
+
+      expect(resolution).toMatchObject({ action: 'conflict', reason: 'upstream requires both ^1.2.0 and ^2.0.0' });
+    });
+
+    it('installs the latest version when upstream declares no usable range', async () => {
+      const resolutions = await new PackageResolutionService(project).resolve({
+        'date-fns': requirement([]),
+        'shared-ui': requirement(['workspace:*'])
+      });
+
+      expect(resolutions).toEqual([
+        { name: 'date-fns', ranges: [], action: 'install', spec: 'date-fns', reason: 'not declared upstream, installing the latest version' },
+        { name: 'shared-ui', ranges: ['workspace:*'], action: 'install', spec: 'shared-ui', reason: 'upstream declares workspace:*, installing the latest version' }
+      ]);
+    });
+
+    it('leaves installed packages that satisfy the range alone and reports those that do not', async () => {
+      await install('@mui/material', '5.15.4');
+      await install('react', '17.0.2');
+
+      const resolutions = await new PackageResolutionService(project).resolve({
+        '@mui/material': requirement(['^5.14.0']),
+        react: requirement(['^18.2.0'], true)
+      });
+
+      expect(resolutions).toEqual([
+        { name: '@mui/material', ranges: ['^5.14.0'], current: '5.15.4', action: 'satisfied' },
+        { name: 'react', ranges: ['^18.2.0'], current: '17.0.2', peer: true, action: 'conflict', reason: '17.0.2 is installed, upstream requires ^18.2.0' }
+      ]);
+    });
+
+    it('finds packages installed in a parent directory, as in a workspace', async () => {
+      const packageDir = path.join(project, 'packages', 'app');
+      await fs.ensureDir(packageDir);
+      await install('clsx', '2.1.0');
+
+      const [resolution] = await new PackageResolutionService(packageDir).resolve({ clsx: requirement(['^2.0.0']) });
+
+      expect(resolution).toMatchObject({ current: '2.1.0', action: 'satisfied' });
+    });
+
+    it('compares the range package.json declares when the package is not installed', async () => {
+      await fs.outputJson(path.join(project, 'package.json'), { dependencies: { clsx: '^2.0.0' }, devDependencies: { 'date-fns': '^2.30.0' } });
+
+      const resolutions = await new PackageResolutionService(project).resolve({
+        clsx: requirement(['^2.1.0']),
+        'date-fns': requirement(['^3.0.0'])
+      });
+
+      expect(resolutions).toEqual([
+        { name: 'clsx', ranges: ['^2.1.0'], current: '^2.0.0', action: 'satisfied' },
+        { name: 'date-fns', ranges: ['^3.0.0'], current: '^2.30.0', action: 'conflict', reason: 'the project requires ^2.30.0, upstream requires ^3.0.0' }
+      ]);
+    });
+  });
+
+  describe('findVersionMismatches', () => {
+    const mismatchesFor = async (name: string, upstream: string) =>
+      new PackageResolutionService(project).findVersionMismatches({ [name]: requirement([upstream]) });
+
+    it('accepts an installed version within any major an upstream range allows', async () => {
+      await install('react', '18.2.0');
+
+      expect(await mismatchesFor('react', '^17.0.0 || ^18.0.0')).toEqual([]);
+    });
+
+    it('reports an installed major that no alternative of the upstream range allows', async () => {
+      await install('react', '16.14.0');
+
+      expect(await mismatchesFor('react', '^17.0.0 || ^18.0.0')).toEqual([
+        { name: 'react', upstream: '^17.0.0 || ^18.0.0', current: '16.14.0', components: ['Button'] }
+      ]);
+    });
+
+    it('accepts a declared range spanning several majors when one of them is shared', async () => {
+      await fs.outputJson(path.join(project, 'package.json'), { dependencies: { '@mui/material': '>=4.12.0 <6' } });
+
+      expect(await mismatchesFor('@mui/material', '^5.15.0')).toEqual([]);
+    });
+
+    it('reports a declared range of another major', async () => {
+      await fs.outputJson(path.join(project, 'package.json'), { dependencies: { '@mui/material': '^4.12.4' } });
+
+      expect(await mismatchesFor('@mui/material', '^5.15.0')).toEqual([
+        { name: '@mui/material', upstream: '^5.15.0', current: '^4.12.4', components: ['Button'] }
+      ]);
+    });
+
+    it('compares the installed version ahead of the declared range', async () => {
+      await fs.outputJson(path.join(project, 'package.json'), { dependencies: { '@emotion/react': '^10.0.0' } });
+      await install('@emotion/react', '11.11.1');
+
+      expect(await mismatchesFor('@emotion/react', '^11.11.0')).toEqual([]);
+    });
+
+    it('only checks MUI, React and emotion packages the project already has', async () => {
+      await install('clsx', '1.2.1');
+
+      expect(await mismatchesFor('clsx', '^2.0.0')).toEqual([]);
+      expect(await mismatchesFor('@mui/icons-material', '^5.15.0')).toEqual([]);
+    });
+
+    it('skips ranges that are not semver', async () => {
+      await fs.outputJson(path.join(project, 'package.json'), { dependencies: { react: 'workspace:*' } });
+
+      expect(await mismatchesFor('react', '^18.2.0')).toEqual([]);
+    });
+  });
+});
+
+describe('readDependencyRanges', () => {
+  let dir: string;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-ranges-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(dir);
+  });
+
+  it('takes the first field declaring a package', async () => {
+    const packageJsonPath = path.join(dir, 'package.json');
+    await fs.outputJson(packageJsonPath, {
+      dependencies: { react: '^18.2.0' },
+      peerDependencies: { react: '>=17', '@mui/material': '^5.0.0' },
+      devDependencies: { '@mui/material': '^5.15.0', jest: '^29.0.0' }
+    });
+
+    expect(await readDependencyRanges(packageJsonPath)).toEqual({ react: '^18.2.0', '@mui/material': '^5.0.0', jest: '^29.0.0' });
+    expect(await readUpstreamPackages(packageJsonPath)).toEqual({
+      ranges: { react: '^18.2.0', '@mui/material': '^5.0.0', jest: '^29.0.0' },
+      peers: ['react', '@mui/material']
+    });
+  });
+
+  it('is empty without a package.json', async () => {
+    expect(await readDependencyRanges(path.join(dir, 'package.json'))).toEqual({});
+    expect(await readUpstreamPackages(path.join(dir, 'package.json'))).toEqual({ ranges: {}, peers: [] });
+  });
+});
@@ -0,0 +1,175 @@
+import fs from 'fs-extra';
+import path from 'path';
+import semver from 'semver';
+import { ModuleGraphService } from './module-graph.service.js';
+import { PathAliasService } from './path-alias.service.js';
+import { PackageRequirement, PackageResolution, UpstreamPackages, VersionMismatch } from '../../types/index.js';
+
+const SOURCE_FILE = /\.(tsx?|jsx?)$/;
+
+/** Packages components are written against a major version of */
+const FRAMEWORK_PACKAGE = /^(react|react-dom|@mui\/.+|@emotion\/.+)$/;
+
+/** package.json fields declaring packages; a package listed in several takes the first range */
+const DEPENDENCY_FIELDS = ['dependencies', 'peerDependencies', 'optionalDependencies', 'devDependencies'];
+
+/**
+ * Works out which npm packages downloaded files need and in which versions. Ranges come from the
+ * upstream package.json; packages the project already has in a matching version are left alone.
+ */
+export class PackageResolutionService {
+  private moduleGraphService = new ModuleGraphService();
+
+  constructor(private projectRoot: string = process.cwd()) {}
+
+  /** Packages imported by the source files among `files`; the project's own path aliases are not packages */
+  async collectImports(files: string[]): Promise<string[]> {
+    const projectAliases = await PathAliasService.load(this.projectRoot);
+    const packages = new Set<string>();
+
+    for (const file of files.filter(file => SOURCE_FILE.test(file))) {
+      if (!await fs.pathExists(file)) {
+        continue;
+      }
+      const content = await fs.readFile(file, 'utf-8');
+      this.moduleGraphService
+        .getPackageImports(content, file, (specifier) => !!projectAliases?.matches(specifier))
+        .forEach(name => packages.add(name));
+    }
+
+    return Array.from(packages).sort();
+  }
+
+  /**
+   * Decide per package whether to install it, skip it or report a conflict. A package may have
+   * several upstream ranges when components come from several sources or commits.
+   */
+  async resolve(requirements: Record<string, PackageRequirement>): Promise<PackageResolution[]> {
+    const declared = await readDependencyRanges(path.join(this.projectRoot, 'package.json'));
+    const resolutions: PackageResolution[] = [];
+    for (const name of Object.keys(requirements).sort()) {
+      const { ranges, peer } = requirements[name];
+      resolutions.push(await this.resolvePackage(name, ranges, declared[name], peer));
+    }
+    return resolutions;
+  }
+
+  /**
+   * MUI, React and emotion packages the project has in another major version than upstream
+   * requires. Packages the project does not have yet are not mismatches.
+   */
+  async findVersionMismatches(requirements: Record<string, PackageRequirement>): Promise<VersionMismatch[]> {
+    const declared = await readDependencyRanges(path.join(this.projectRoot, 'package.json'));
+    const mismatches: VersionMismatch[] = [];
+    for (const name of Object.keys(requirements).filter(name => FRAMEWORK_PACKAGE.test(name)).sort()) {
+      const current = await this.readInstalledVersion(name) || declared[name];
+      if (!current || !semver.validRange(current)) {
+        continue;
+      }
+
+      const { ranges, components } = requirements[name];
+      const upstream = ranges.find(range => semver.validRange(range) && !sharesMajorVersion(range, current));
+      if (upstream) {
+        mismatches.push({ name, upstream, current, components });
+      }
+    }
+    return mismatches;
+  }
+
+  private async resolvePackage(name: string, ranges: string[], declared: string | undefined, peer: boolean): Promise<PackageResolution> {
+    const installed = await this.readInstalledVersion(name);
+    const current = installed || declared;
+    const resolution = { name, ranges, ...(current && { current }), ...(peer && { peer }) };
+
+    // Ranges such as `workspace:*` or git URLs cannot be compared and are not checked
+    const versionRanges = ranges.filter(range => semver.validRange(range));
+    const clash = versionRanges.find(range => versionRanges.some(other => !semver.intersects(range, other)));
+    if (clash) {
+      return { ...resolution, action: 'conflict', reason: `upstream requires both ${versionRanges.join(' and ')}` };
+    }
+
+    if (installed) {
+      const unmet = versionRanges.find(range => !semver.satisfies(installed, range, { includePrerelease: true }));
+      return unmet
+        ? { ...resolution, action: 'conflict', reason: `${installed} is installed, upstream requires ${unmet}` }
+        : { ...resolution, action: 'satisfied' };
+    }
+
+    if (declared) {
+      const unmet = semver.validRange(declared) ? versionRanges.find(range => !semver.intersects(declared, range)) : undefined;
+      return unmet
+        ? { ...resolution, action: 'conflict', reason: `the project requires ${declared}, upstream requires ${unmet}` }
+        : { ...resolution, action: 'satisfied' };
+    }
+
+    if (versionRanges.length === 0) {
+      const reason = ranges.length > 0
+        ? `upstream declares ${ranges[0]}, installing the latest version`
+        : 'not declared upstream, installing the latest version';
+      return { ...resolution, action: 'install', spec: name, reason };
+    }
+    // Space-separated ranges must all be met
+    const range = versionRanges.join(' ');
+    return { ...resolution, action: 'install', spec: `${name}@${range}`, range };
+  }
+
+  /** Version of the package node would resolve from the project root; undefined when not installed */
+  private async readInstalledVersion(name: string): Promise<string | undefined> {
+    let dir = path.resolve(this.projectRoot);
+    while (true) {
+      const packageJsonPath = path.join(dir, 'node_modules', ...name.split('/'), 'package.json');
+      if (await fs.pathExists(packageJsonPath)) {
+        const { version } = await fs.readJson(packageJsonPath);
+        return semver.valid(version) ? version : undefined;
+      }
+      if (path.dirname(dir) === dir) {
+        return undefined;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+}
+
+/** One line per mismatch, e.g. `@mui/material ^5.15.0 upstream, 4.12.4 in the project (used by Button)` */
+export function describeVersionMismatches(mismatches: VersionMismatch[]): string[] {
+  return mismatches.map(({ name, upstream, current, components }) =>
+    `${name} ${upstream} upstream, ${current} in the project (used by ${components.join(', ')})`);
+}
+
+/**
+ * Whether two versions or ranges allow versions of a common major, e.g. `^17.0.0 || ^18.0.0` and
+ * `18.2.0`. The lowest major of each `||` alternative of either is a candidate.
+ */
+function sharesMajorVersion(a: string, b: string): boolean {
+  return [...getLowestMajors(a), ...getLowestMajors(b)]
+    .some(major => semver.intersects(a, `${major}.x`) && semver.intersects(b, `${major}.x`));
+}
+
+function getLowestMajors(range: string): number[] {
+  return new semver.Range(range).set
+    .map(comparators => semver.minVersion(comparators.map(comparator => comparator.value).join(' '))?.major)
+    .filter((major): major is number => major !== undefined);
+}
+
+/** Every package a package.json declares with its version range; empty when the file is missing */
+export async function readDependencyRanges(packageJsonPath: string): Promise<Record<string, string>> {
+  if (!await fs.pathExists(packageJsonPath)) {
+    return {};
+  }
+
+  const packageJson = await fs.readJson(packageJsonPath);
+  const ranges: Record<string, string> = {};
+  for (const field of [...DEPENDENCY_FIELDS].reverse()) {
+    Object.assign(ranges, packageJson[field]);
+  }
+  return ranges;
+}
+
+/** The ranges of a package.json and the packages it declares as peer dependencies */
+export async function readUpstreamPackages(packageJsonPath: string): Promise<UpstreamPackages> {
+  const ranges = await readDependencyRanges(packageJsonPath);
+  const peers = await fs.pathExists(packageJsonPath)
+    ? Object.keys((await fs.readJson(packageJsonPath)).peerDependencies || {})
+    : [];
+  return { ranges, peers };
+}
@@ -0,0 +1,73 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { PathAliasService } from './path-alias.service.js';
+
+describe('PathAliasService', () => {
+  let project: string;
+
+  const load = async (compilerOptions: Record<string, unknown>, dir: string = project): Promise<PathAliasService> => {
+    await fs.outputJson(path.join(dir, 'tsconfig.json'), { compilerOptions });
+    const aliases = await PathAliasService.load(dir);
+    expect(aliases).not.toBeNull();
+    return aliases!;
+  };
+
+  beforeEach(async () => {
+    project = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-alias-')));
+  });
+
+  afterEach(async () => {
+    await fs.remove(project);
+  });
+
+  it('is null without a tsconfig or without paths', async () => {
+    expect(await PathAliasService.load(project)).toBeNull();
+
+    await fs.outputJson(path.join(project, 'tsconfig.json'), { compilerOptions: { strict: true } });
+    expect(await PathAliasService.load(project)).toBeNull();
+  });
+
+  it('resolves wildcard and exact aliases against baseUrl', async () => {
+    const aliases = await load({ baseUrl: 'src', paths: { '@/*': ['*'], '@theme': ['common/theme'] } });
+
+    expect(await aliases.resolve('@/components/Button')).toBe(path.join(project, 'src', 'components', 'Button'));
+    expect(await aliases.resolve('@theme')).toBe(path.join(project, 'src', 'common', 'theme'));
+    expect(await aliases.resolve('@mui/material')).toBeNull();
+    expect(aliases.matches('@/x')).toBe(true);
+    expect(aliases.matches('@mui/material')).toBe(false);
+  });
+
+  it('prefers the most specific pattern', async () => {
+    const aliases = await load({ baseUrl: '.', paths: { '@/*': ['src/*'], '@/components/*': ['src/ui/*'] } });
+
+    expect(await aliases.resolve('@/components/Button')).toBe(path.join(project, 'src', 'ui', 'Button'));
+    expect(await aliases.resolve('@/common/theme')).toBe(path.join(project, 'src', 'common', 'theme'));
+  });
+
+  it('takes the first substitution that exists on disk', async () => {
+    await fs.outputFile(path.join(project, 'vendor', 'Button', 'index.tsx'), '');
+    const aliases = await load({ baseUrl: '.', paths: { '~/*': ['src/*', 'vendor/*'] } });
+
+    expect(await aliases.resolve('~/Button')).toBe(path.join(project, 'vendor', 'Button'));
+    expect(await aliases.resolve('~/Missing')).toBe(path.join(project, 'src', 'Missing'));
+  });
+
+  it('resolves paths without baseUrl relative to the tsconfig declaring them', async () => {
+    await fs.outputJson(path.join(project, 'config', 'tsconfig.base.json'), { compilerOptions: { paths: { '~/*': ['../src/*'] } } });
+    await fs.outputJson(path.join(project, 'tsconfig.json'), { extends: './config/tsconfig.base.json' });
+
+    const aliases = await PathAliasService.load(project);
+
+    expect(await aliases!.resolve('~/components/Button')).toBe(path.join(project, 'src', 'components', 'Button'));
+  });
+
+  it('expresses files through the most specific alias covering them', async () => {
+    const aliases = await load({ baseUrl: '.', paths: { '@/*': ['src/*'], '@components/*': ['src/components/*'], '@theme': ['src/common/theme'] } });
+
+    expect(aliases.toAlias(path.join(project, 'src', 'components', 'Form', 'Error'))).toBe('@components/Form/Error');
+    expect(aliases.toAlias(path.join(project, 'src', 'common', 'utils'))).toBe('@/common/utils');
+    expect(aliases.toAlias(path.join(project, 'src', 'common', 'theme'))).toBe('@theme');
+    expect(aliases.toAlias(path.join(project, 'lib', 'other'))).toBeNull();
+  });
+});
@@ -0,0 +1,144 @@
+import fs from 'fs-extra';
+import path from 'path';
+import ts from 'typescript';
+
+interface AliasPattern {
+  pattern: string;
+  prefix: string;
+  suffix: string;
+  wildcard: boolean;
+  substitutions: string[];
+}
+
+const RESOLVE_EXTENSIONS = ['.tsx', '.ts', '.jsx', '.js'];
+
+/**
+ * `compilerOptions.paths` of a project's tsconfig (including `extends`), used to resolve alias
+ * imports such as `@/components/Button` to files and to express files as aliases again.
+ */
+export class PathAliasService {
+  private patterns: AliasPattern[];
+
+  private constructor(baseDir: string, paths: Record<string, string[]>) {
+    this.patterns = Object.entries(paths).map(([pattern, substitutions]) => {
+      const [prefix, suffix = ''] = pattern.split('*');
+      return {
+        pattern,
+        prefix,
+        suffix,
+        wildcard: pattern.includes('*'),
+        substitutions: substitutions.map(substitution => path.resolve(baseDir, substitution))
+      };
+    })
+      // Most specific pattern first, like the TypeScript resolver
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+  }
+
+  /** Load the aliases of the tsconfig in `projectDir`; null if there is none or it defines no paths */
+  static async load(projectDir: string, configName: string = 'tsconfig.json'): Promise<PathAliasService | null> {
+    const configPath = path.join(projectDir, configName);
+    if (!await fs.pathExists(configPath)) {
+      return null;
+    }
+
+    const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (error) {
+      console.warn(`Warning: Could not read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+      return null;
+    }
+
+    // Only compiler options are needed, so skip enumerating the project's files
+    const host: ts.ParseConfigHost = { ...ts.sys, readDirectory: () => [] };
+    const { options } = ts.parseJsonConfigFileContent(config, host, projectDir, undefined, configPath);
+    if (!options.paths || Object.keys(options.paths).length === 0) {
+      return null;
+    }
+
+    // Without a baseUrl, paths are relative to the tsconfig declaring them, which may be an extended one
+    const { pathsBasePath } = options;
+    return new PathAliasService(options.baseUrl || (typeof pathsBasePath === 'string' ? pathsBasePath : projectDir), options.paths);
+  }
+
+  /** Whether the specifier is covered by one of the aliases */
+  matches(specifier: string): boolean {
+    return this.findPattern(specifier) !== null;
+  }
+
+  /**
+   * Resolve an aliased specifier to an absolute, extensionless path. The first substitution that
+   * exists on disk wins; falls back to the first substitution.
+   */
+  async resolve(specifier: string): Promise<string | null> {
+    const match = this.findPattern(specifier);
+    if (!match) {
+      return null;
+    }
+
+    const candidates = match.pattern.substitutions.map(substitution => substitution.replace('*', match.wildcard));
+    for (const candidate of candidates) {
+      if (await existsAsModule(candidate)) {
+        return candidate;
+      }
+    }
+
+    return candidates[0] || null;
+  }
+
+  /** Express an absolute, extensionless path through the most specific alias covering it */
+  toAlias(targetPath: string): string | null {
+    const target = path.resolve(targetPath);
+
+    for (const pattern of this.patterns) {
+      for (const substitution of pattern.substitutions) {
+        if (!pattern.wildcard) {
+          if (substitution === target) {
+            return pattern.pattern;
+          }
+          continue;
+        }
+
+        const [subPrefix, subSuffix = ''] = substitution.split('*');
+        if (target.startsWith(subPrefix) && target.endsWith(subSuffix) && target.length >= subPrefix.length + subSuffix.length) {
+          const middle = target.slice(subPrefix.length, target.length - subSuffix.length);
+          return `${pattern.prefix}${middle.split(path.sep).join('/')}${pattern.suffix}`;
+        }
+      }
+    }
+
+    return null;
+  }
+
+  private findPattern(specifier: string): { pattern: AliasPattern; wildcard: string } | null {
+    for (const pattern of this.patterns) {
+      if (!pattern.wildcard) {
+        if (specifier === pattern.pattern) {
+          return { pattern, wildcard: '' };
+        }
+      } else if (
+        specifier.startsWith(pattern.prefix) &&
+        specifier.endsWith(pattern.suffix) &&
+        specifier.length >= pattern.prefix.length + pattern.suffix.length
+      ) {
+        return { pattern, wildcard: specifier.slice(pattern.prefix.length, specifier.length - pattern.suffix.length) };
+      }
+    }
+
+    return null;
+  }
+}
+
+async function existsAsModule(candidate: string): Promise<boolean> {
+  const variants = [
+    candidate,
+    ...RESOLVE_EXTENSIONS.map(ext => candidate + ext),
+    ...RESOLVE_EXTENSIONS.map(ext => path.join(candidate, `index${ext}`))
+  ];
+
+  for (const variant of variants) {
+    if (await fs.pathExists(variant)) {
+      return true;
+    }
+  }
+
+  return false;
+}
@@ -0,0 +1,103 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { StagingService } from './staging.service.js';
+import { DownloadResult } from '../../types/index.js';
+
+describe('StagingService', () => {
+  let project: string;
+  let outputDir: string;
+  let staging: StagingService;
+
+  const projectFile = (file: string) => path.join(project, 'src', ...file.split('/'));
+  const stage = (file: string, content: string) => fs.outputFile(path.join(path.dirname(staging.stagedOutputDir), ...file.split('/')), content);
+  const stagingDirs = async () => (await fs.readdir(path.join(project, 'src'))).filter(entry => entry.startsWith('.mui-bueno-staging-'));
+
+  const result = (): DownloadResult => ({
+    extractedPath: path.join(staging.stagedOutputDir, 'Button'),
+    commit: 'c0ffee',
+    components: [{ name: 'Button', path: path.join(staging.stagedOutputDir, 'Button'), dependencies: [], sharedFiles: ['common/theme.ts'] }],
+    sources: {},
+    excludedFiles: []
+  });
+
+  beforeEach(async () => {
+    project = await fs.realpath(await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-staging-test-')));
+    outputDir = path.join(project, 'src', 'components');
+    await fs.outputFile(projectFile('common/theme.ts'), 'export const theme = 1;');
+    staging = new StagingService(outputDir);
+  });
+
+  afterEach(async () => {
+    await staging.discard();
+    await fs.remove(project);
+  });
+
+  it('stages next to the components directory and maps staged paths into the project', async () => {
+    const stagedOutputDir = await staging.prepare();
+
+    expect(path.dirname(path.dirname(path.dirname(stagedOutputDir)))).toBe(path.join(project, 'src'));
+    expect(path.basename(stagedOutputDir)).toBe('components');
+    expect(staging.toFinalPath(path.join(stagedOutputDir, 'Button', 'Button.tsx'))).toBe(path.join(outputDir, 'Button', 'Button.tsx'));
+    expect(staging.toFinalPath(path.join(path.dirname(stagedOutputDir), 'common', 'theme.ts'))).toBe(projectFile('common/theme.ts'));
+  });
+
+  it('moves staged files into the project on commit and removes the staging directory on discard', async () => {
+    await staging.prepare();
+    await stage('components/Button/Button.tsx', 'export const Button = 1;');
+    await stage('common/theme.ts', 'export const theme = 2;');
+
+    await staging.validate(result());
+    const placed = await staging.commit();
+    await staging.discard();
+
+    expect(placed.sort()).toEqual([projectFile('common/theme.ts'), projectFile('components/Button/Button.tsx')]);
+    expect(await fs.readFile(projectFile('components/Button/Button.tsx'), 'utf-8')).toBe('export const Button = 1;');
+    expect(await fs.readFile(projectFile('common/theme.ts'), 'utf-8')).toBe('export const theme = 2;');
+    expect(await stagingDirs()).toEqual([]);
+  });
+
+  it('rejects an incomplete download before anything is moved', async () => {
+    await staging.prepare();
+    await stage('components/Button/Button.tsx', 'export const Button = 1;');
+
+    await expect(staging.validate(result())).rejects.toThrow('shared file common/theme.ts required by Button was not staged');
+  });
+
+  it('rejects files that would replace a directory in the project', async () => {
+    await staging.prepare();
+    await stage('components/Button/Button.tsx', 'export const Button = 1;');
+    await stage('common/theme.ts', 'export const theme = 2;');
+    await fs.ensureDir(projectFile('components/Button/Button.tsx'));
+
+    await expect(staging.validate(result())).rejects.toThrow('src/components/Button/Button.tsx is a directory in the project');
+  });
+
+  it('restores the project when a move fails', async () => {
+    await staging.prepare();
+    await stage('components/Button/Button.tsx', 'export const Button = 1;');
+    await stage('components/Dialog/Dialog.tsx', 'export const Dialog = 1;');
+    await stage('common/theme.ts', 'export const theme = 2;');
+    // A file where the staged Dialog needs a directory makes that move fail
+    await fs.outputFile(projectFile('components/Dialog'), 'not a directory');
+
+    await expect(staging.commit()).rejects.toThrow();
+
+    expect(await fs.readFile(projectFile('common/theme.ts'), 'utf-8')).toBe('export const theme = 1;');
+    expect(await fs.readFile(projectFile('components/Dialog'), 'utf-8')).toBe('not a directory');
+    expect(await fs.pathExists(projectFile('components/Button'))).toBe(false);
+  });
+
+  it('removes staging directories left behind by processes that no longer run', async () => {
+    const stale = path.join(project, 'src', '.mui-bueno-staging-999999-abc123');
+    const running = path.join(project, 'src', `.mui-bueno-staging-${process.ppid}-def456`);
+    await fs.ensureDir(path.join(stale, 'stage'));
+    await fs.ensureDir(path.join(running, 'stage'));
+
+    await staging.prepare();
+
+    expect(await fs.pathExists(stale)).toBe(false);
+    expect(await fs.pathExists(running)).toBe(true);
+    expect(await stagingDirs()).toHaveLength(2);
+  });
+});
@@ -0,0 +1,198 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { listFiles, toPosix } from '../../utils/manifest.js';
+import { isRunning } from '../../utils/cache-lock.js';
+import { DownloadResult } from '../../types/index.js';
+
+const STAGING_PREFIX = '.mui-bueno-staging-';
+
+/** Staging directories of this process, removed if it exits or is interrupted before discarding them */
+const activeRoots = new Set<string>();
+let cleanupRegistered = false;
+
+function registerCleanup(): void {
+  if (cleanupRegistered) {
+    return;
+  }
+  cleanupRegistered = true;
+
+  const removeActiveRoots = (): void => {
+    activeRoots.forEach(root => fs.removeSync(root));
+    activeRoots.clear();
+  };
+  process.on('exit', removeActiveRoots);
+  for (const [signal, code] of [['SIGINT', 130], ['SIGTERM', 143]] as const) {
+    process.once(signal, () => {
+      removeActiveRoots();
+      process.exit(code);
+    });
+  }
+}
+
+interface PlacedFile {
+  target: string;
+  /** Where the file previously at `target` was moved to */
+  backup?: string;
+  placed: boolean;
+}
+
+/**
+ * A staging directory mirroring the project layout around `outputDir`: components under
+ * `stagedOutputDir`, shared files next to it. Files are only moved into the project by `commit`,
+ * which restores the previous state if any move fails.
+ */
+export class StagingService {
+  private root: string | null = null;
+  private outputDir: string;
+
+  constructor(outputDir: string) {
+    this.outputDir = path.resolve(outputDir);
+  }
+
+  get stagedOutputDir(): string {
+    if (!this.root) {
+      throw new Error('Staging directory has not been prepared');
+    }
+    return path.join(this.root, 'stage', path.basename(this.outputDir));
+  }
+
+  /**
+   * Create the staging directory. It is placed inside the project when possible so files can be
+   * renamed into place rather than copied across file systems. Staging directories left behind by
+   * processes that no longer run (e.g. killed mid-download) are removed first.
+   */
+  async prepare(): Promise<string> {
+    const sharedRoot = path.dirname(this.outputDir);
+    const parent = await fs.pathExists(sharedRoot) ? sharedRoot : process.cwd();
+    await removeStaleStaging(parent);
+
+    registerCleanup();
+    this.root = await fs.mkdtemp(path.join(parent, `${STAGING_PREFIX}${process.pid}-`));
+    activeRoots.add(this.root);
+    await fs.ensureDir(this.stagedOutputDir);
+    return this.stagedOutputDir;
+  }
+
+  /** Map a path inside the staging directory to where it lands in the project */
+  toFinalPath(stagedPath: string): string {
+    return path.join(path.dirname(this.outputDir), path.relative(path.dirname(this.stagedOutputDir), stagedPath));
+  }
+
+  /**
+   * Check the staged download is complete: every component and shared file in the result was
+   * staged, and nothing would replace a directory in the project with a file.
+   */
+  async validate(result: DownloadResult): Promise<void> {
+    const problems: string[] = [];
+
+    for (const component of result.components) {
+      if (!await fs.pathExists(component.path) || (await listFiles(component.path)).length === 0) {
+        problems.push(`component ${component.name} was not staged`);
+      }
+      for (const sharedFile of component.sharedFiles) {
+        if (!await fs.pathExists(path.join(path.dirname(this.stagedOutputDir), sharedFile))) {
+          problems.push(`shared file ${sharedFile} required by ${component.name} was not staged`);
+        }
+      }
+    }
+
+    for (const stagedFile of await listFiles(path.dirname(this.stagedOutputDir))) {
+      const target = this.toFinalPath(stagedFile);
+      if (await fs.pathExists(target) && (await fs.stat(target)).isDirectory()) {
+        problems.push(`${toPosix(path.relative(process.cwd(), target))} is a directory in the project`);
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Staged download is incomplete:\n  - ${problems.join('\n  - ')}`);
+    }
+  }
+
+  /**
+   * Move every staged file into the project. Files that get replaced are backed up first; if a
+   * move fails, placed files are removed, backups restored and created directories deleted.
+   */
+  async commit(): Promise<string[]> {
+    const stagedRoot = path.dirname(this.stagedOutputDir);
+    const backupRoot = path.join(this.root!, 'backup');
+    const stagedFiles = await listFiles(stagedRoot);
+    const placed: PlacedFile[] = [];
+    const createdDirs: string[] = [];
+
+    try {
+      for (const stagedFile of stagedFiles) {
+        const target = this.toFinalPath(stagedFile);
+        const entry: PlacedFile = { target, placed: false };
+        placed.push(entry);
+
+        if (await fs.pathExists(target)) {
+          entry.backup = path.join(backupRoot, path.relative(stagedRoot, stagedFile));
+          await fs.move(target, entry.backup);
+        } else {
+          createdDirs.push(...await this.findMissingDirs(path.dirname(target)));
+          await fs.ensureDir(path.dirname(target));
+        }
+
+        await fs.move(stagedFile, target);
+        entry.placed = true;
+      }
+    } catch (error) {
+      await this.rollback(placed, createdDirs);
+      throw error;
+    }
+
+    return placed.map(entry => entry.target);
+  }
+
+  /** Remove the staging directory and any backups in it */
+  async discard(): Promise<void> {
+    if (this.root) {
+      await fs.remove(this.root);
+      activeRoots.delete(this.root);
+      this.root = null;
+    }
+  }
+
+  private async rollback(placed: PlacedFile[], createdDirs: string[]): Promise<void> {
+    for (const entry of [...placed].reverse()) {
+      if (entry.placed) {
+        await fs.remove(entry.target);
+      }
+      if (entry.backup && await fs.pathExists(entry.backup)) {
+        await fs.move(entry.backup, entry.target, { overwrite: true });
+      }
+    }
+
+    // Deepest first, so parents are empty by the time they are reached
+    for (const dir of Array.from(new Set(createdDirs)).sort((a, b) => b.length - a.length)) {
+      if (await fs.pathExists(dir) && (await fs.readdir(dir)).length === 0) {
+        await fs.remove(dir);
+      }
+    }
+  }
+
+  /** `dir` and its ancestors that do not exist yet */
+  private async findMissingDirs(dir: string): Promise<string[]> {
+    const missing: string[] = [];
+    let current = dir;
+    while (!await fs.pathExists(current)) {
+      missing.push(current);
+      const parent = path.dirname(current);
+      if (parent === current) {
+        break;
+      }
+      current = parent;
+    }
+    return missing;
+  }
+}
+
+/** Remove staging directories in `parent` whose process is no longer running */
+async function removeStaleStaging(parent: string): Promise<void> {
+  for (const entry of await fs.readdir(parent)) {
+    const match = entry.startsWith(STAGING_PREFIX) && /^(\d+)-/.exec(entry.slice(STAGING_PREFIX.length));
+    if (match && !isRunning(Number(match[1]))) {
+      await fs.remove(path.join(parent, entry));
+    }
+  }
+}
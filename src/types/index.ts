@@ -47,15 +47,53 @@ export interface GitConfig {
   repositoryUrl: string;
   branch: string;
   sshKeyPath?: string;
+  /** Git credential helper for HTTPS remotes (e.g. `store`, `manager`); tokens go in MUI_BUENO_GIT_TOKEN */
+  credentialHelper?: string;
   username?: string;
+  /** Other sources whose components may satisfy imports this source's components cannot, in order */
+  dependencySources?: string[];
 }
 
+/** An additional component repository; its components are addressed as `name:Category/Component` */
+export interface SourceConfig extends GitConfig {
+  name: string;
+}
+
+/** How the repository cache is cloned; changes apply to clones made afterwards */
+export interface CloneConfig {
+  /** Commits of history to fetch per branch and tag; 0 for the full history */
+  depth?: number;
+  /** Partial clone filter, `blob:none` by default; an empty string clones everything */
+  filter?: string;
+  /** Only read `src/` and the root package.json and tsconfig files; on by default */
+  sparse?: boolean;
+}
+
+export type ImportStyle = 'relative' | 'alias';
+
 export interface CliConfig {
+  /** The default component source */
   git: GitConfig;
+  sources?: SourceConfig[];
   defaultDownloadPath?: string;
   author?: string;
   workspace?: string;
   cacheDir?: string;
+  /** Seconds to wait for another CLI process to release the cache */
+  cacheLockTimeout?: number;
+  /** Seconds after a fetch during which the cached repository is used without fetching again */
+  fetchTtl?: number;
+  clone?: CloneConfig;
+  importStyle?: ImportStyle;
+  /** Which upstream files downloads copy */
+  files?: FilePolicyConfig;
+}
+
+/** Glob rules matched against paths relative to the upstream `src` directory */
+export interface FilePolicyConfig {
+  /** Files to copy even though an exclude pattern matches them */
+  include?: string[];
+  exclude?: string[];
 }
 
 export interface DownloadOptions {
@@ -66,8 +104,20 @@ export interface DownloadOptions {
   force?: boolean;
   tests?: boolean;
   includeStories?: boolean;
+  /** Glob patterns of files to copy, on top of the configured file policy */
+  include?: string[];
+  exclude?: string[];
   installDeps?: boolean;
   packageManager?: string;
+  allowVersionMismatch?: boolean;
+  /** Resolve conflicting files without prompting */
+  onConflict?: string;
+  /** False with --no-install: resolve packages without running the package manager */
+  install?: boolean;
+  writePackageJson?: boolean;
+  dryRun?: boolean;
+  json?: boolean;
+  keepGoing?: boolean;
 }
 
 export interface SearchOptions {
@@ -83,12 +133,195 @@ export interface GitInfo {
   latestCommit: string;
   availableBranches: string[];
   availableTags: string[];
+  latestTag?: string;
 }
 
 export interface ComponentInfo {
   name: string;
+  /** Source the component was listed from */
+  source?: string;
   path: string;
   branches: string[];
   tags: string[];
   versions: string[];
-} 
\ No newline at end of file
+}
+
+export interface DownloadedComponent {
+  name: string;
+  /** Set when the component came from another source than the default one */
+  source?: string;
+  /** Set when the component was read at another commit than the download's, i.e. from another source */
+  commit?: string;
+  path: string;
+  dependencies: string[];
+  sharedFiles: string[];
+}
+
+export interface DownloadResult {
+  extractedPath: string;
+  ref?: string;
+  commit: string;
+  components: DownloadedComponent[];
+  /** Repository URL of each source the components came from */
+  sources: Record<string, string>;
+  /** Upstream files the file policy left out, relative to `src` and prefixed with their source unless it is the default one */
+  excludedFiles: string[];
+}
+
+export interface DependencyNode {
+  name: string;
+  components: string[];
+  sharedFiles: string[];
+  packages: string[];
+}
+
+export interface DependencyGraph {
+  root: string;
+  ref?: string;
+  commit?: string;
+  nodes: Record<string, DependencyNode>;
+}
+
+export interface LockedComponent extends Pick<ComponentMetadata, 'branch' | 'checksum'> {
+  /** Set when the component came from another source than the default one */
+  source?: string;
+  commit: string;
+  dependencies: string[];
+  sharedFiles: string[];
+  files: Record<string, string>;
+  /** Include and exclude globs the files were copied with, beyond the defaults */
+  filePolicy?: FilePolicyConfig;
+}
+
+export interface LockedSharedFile {
+  commit: string;
+  hash: string;
+}
+
+export interface ManifestLock {
+  components: Record<string, LockedComponent>;
+  sharedFiles: Record<string, LockedSharedFile>;
+}
+
+export interface ComponentStatus {
+  name: string;
+  requested: boolean;
+  ref?: string;
+  commit: string;
+  latestTag?: string;
+  headCommit?: string;
+  behind: number | null;
+  modifiedFiles: string[];
+}
+
+export type PlannedFileAction = 'create' | 'overwrite' | 'unchanged' | 'conflict';
+
+export interface PlannedFile {
+  /** Path relative to the project root */
+  path: string;
+  action: PlannedFileAction;
+  /** Lands outside the components directory */
+  shared: boolean;
+  reason?: string;
+}
+
+/**
+ * How to resolve a file changed both locally and upstream: keep the local version, take the
+ * upstream one, keep the local version and write upstream's next to it as `.incoming`, or take
+ * upstream's and keep the local version as `.orig`
+ */
+export type ConflictStrategy = 'mine' | 'theirs' | 'incoming' | 'orig';
+
+/** A downloaded file that would replace a project file with local changes */
+export interface FileConflict {
+  /** Path relative to the project root */
+  path: string;
+  reason?: string;
+}
+
+export type PackageAction = 'install' | 'satisfied' | 'conflict';
+
+/** What to do about an npm package imported by downloaded files */
+export interface PackageResolution {
+  name: string;
+  /** Version ranges the upstream package.json files declare; empty when none declares it */
+  ranges: string[];
+  action: PackageAction;
+  /** Version installed in the project, or else the range the project declares */
+  current?: string;
+  /** What to install, e.g. `@mui/material@^5.15.0` */
+  spec?: string;
+  /** Range to write to package.json; unset when upstream declares no usable range */
+  range?: string;
+  /** Upstream declares the package as a peer dependency */
+  peer?: boolean;
+  reason?: string;
+}
+
+/** An npm package imported by downloaded files */
+export interface PackageRequirement {
+  /** Version ranges the upstream package.json files declare; empty when none declares it */
+  ranges: string[];
+  /** Upstream declares it as a peer dependency */
+  peer: boolean;
+  /** Components importing it, directly or through their shared files */
+  components: string[];
+}
+
+/** A MUI, React or emotion package the project has in another major version than upstream requires */
+export interface VersionMismatch {
+  name: string;
+  /** The upstream range whose major version differs */
+  upstream: string;
+  /** Version installed in the project, or else the range the project declares */
+  current: string;
+  components: string[];
+}
+
+/** Version ranges an upstream package.json declares, and which of the packages are peer dependencies */
+export interface UpstreamPackages {
+  ranges: Record<string, string>;
+  peers: string[];
+}
+
+export type PackageManagerName = 'npm' | 'yarn' | 'pnpm' | 'bun';
+
+export interface PackageManagerInfo {
+  name: PackageManagerName;
+  /** Yarn 2 or later */
+  berry: boolean;
+  /** What the package manager was detected from, e.g. `pnpm-lock.yaml` */
+  detectedFrom: string;
+}
+
+/** The package.json that owns the directory components are downloaded to */
+export interface InstallTarget {
+  packageDir: string;
+  packageName?: string;
+  /** Root of the workspace the package belongs to; the package itself when it is the root */
+  workspaceRoot?: string;
+  /** Published packages get upstream peer dependencies as peer dependencies */
+  library: boolean;
+}
+
+export interface DownloadPlan {
+  component: string;
+  ref?: string;
+  commit: string;
+  outputDir: string;
+  components: string[];
+  files: PlannedFile[];
+  /** Upstream files the file policy leaves out */
+  excludedFiles: string[];
+  /** npm packages imported by the downloaded files, resolved as the download would install them */
+  packages: PackageResolution[];
+}
+
+export interface ProjectManifest {
+  repositoryUrl: string;
+  /** Repository URL of each additional source components were downloaded from, by source name */
+  sources?: Record<string, string>;
+  componentsDir: string;
+  components: Record<string, string>;
+  lock: ManifestLock;
+}
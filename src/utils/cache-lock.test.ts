@@ -0,0 +1,121 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { CACHE_LOCK_FILE, CacheLock } from './cache-lock.js';
+
+// A pid far above the kernel's default pid_max, so no process runs under it
+const DEAD_PID = 99_999_999;
+
+describe('CacheLock', () => {
+  let cacheDir: string;
+  let lockPath: string;
+
+  const writeForeignLock = async (owner: { pid: number; hostname: string }, ageMs: number = 0) => {
+    await fs.outputJson(lockPath, { token: 'foreign', command: 'mui-bueno download', acquiredAt: new Date().toISOString(), ...owner });
+    const touched = new Date(Date.now() - ageMs);
+    await fs.utimes(lockPath, touched, touched);
+  };
+
+  const readToken = async (): Promise<string | undefined> => (await fs.readJson(lockPath)).token;
+
+  beforeEach(async () => {
+    cacheDir = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-lock-'));
+    lockPath = path.join(cacheDir, CACHE_LOCK_FILE);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(cacheDir);
+  });
+
+  it('holds the lock file for the operation and removes it afterwards', async () => {
+    const result = await new CacheLock(cacheDir).withLock(async () => {
+      const owner = await fs.readJson(lockPath);
+      expect(owner).toMatchObject({ pid: process.pid, hostname: os.hostname() });
+      expect(typeof owner.token).toBe('string');
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await fs.pathExists(lockPath)).toBe(false);
+  });
+
+  it('is reentrant within one instance', async () => {
+    const lock = new CacheLock(cacheDir, 1);
+
+    await lock.withLock(async () => {
+      const token = await readToken();
+      await lock.withLock(async () => {
+        expect(await readToken()).toBe(token);
+      });
+      // Still held by the outer operation
+      expect(await readToken()).toBe(token);
+    });
+
+    expect(await fs.pathExists(lockPath)).toBe(false);
+  });
+
+  it('runs the operations of different instances one after the other', async () => {
+    const events: string[] = [];
+    const operation = (name: string) => async () => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 100));
+      events.push(`${name} end`);
+    };
+
+    await Promise.all([new CacheLock(cacheDir, 5).withLock(operation('a')), new CacheLock(cacheDir, 5).withLock(operation('b'))]);
+
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('takes over a lock whose owner on this host is no longer running', async () => {
+    await writeForeignLock({ pid: DEAD_PID, hostname: os.hostname() });
+
+    await new CacheLock(cacheDir, 1).withLock(async () => {
+      expect(await readToken()).not.toBe('foreign');
+    });
+
+    expect(await fs.pathExists(lockPath)).toBe(false);
+    expect((await fs.readdir(cacheDir)).filter(entry => entry.startsWith(`${CACHE_LOCK_FILE}.`))).toEqual([]);
+  });
+
+  it('takes over a lock from another host that was not touched for a minute', async () => {
+    await writeForeignLock({ pid: process.pid, hostname: 'other-host' }, 61_000);
+
+    await expect(new CacheLock(cacheDir, 1).withLock(async () => readToken())).resolves.not.toBe('foreign');
+  });
+
+  it('waits for a live lock and times out naming its owner', async () => {
+    await writeForeignLock({ pid: process.pid, hostname: 'other-host' });
+
+    await expect(new CacheLock(cacheDir, 0.3).withLock(async () => undefined))
+      .rejects.toThrow(`Timed out after 0.3s waiting for the cache lock held by process ${process.pid} on other-host`);
+    expect(await readToken()).toBe('foreign');
+  });
+
+  it('lets only one of several waiting processes take over a stale lock', async () => {
+    await writeForeignLock({ pid: DEAD_PID, hostname: os.hostname() });
+    let holders = 0;
+    let maxHolders = 0;
+    const operation = async () => {
+      maxHolders = Math.max(maxHolders, ++holders);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      holders--;
+    };
+
+    await Promise.all(Array.from({ length: 4 }, () => new CacheLock(cacheDir, 5).withLock(operation)));
+
+    expect(maxHolders).toBe(1);
+    expect(await fs.pathExists(lockPath)).toBe(false);
+  });
+
+  it('does not release a lock another process took over in the meantime', async () => {
+    await new CacheLock(cacheDir, 1).withLock(async () => {
+      // Another process judged the lock stale and replaced it with its own
+      await writeForeignLock({ pid: process.pid, hostname: 'other-host' });
+    });
+
+    expect(await readToken()).toBe('foreign');
+  });
+});
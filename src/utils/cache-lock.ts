@@ -0,0 +1,200 @@
+import fs from 'fs-extra';
+import crypto from 'crypto';
+import os from 'os';
+import path from 'path';
+import { logger } from './logger.js';
+
+/** Seconds to wait for another process to release the cache before giving up */
+export const DEFAULT_LOCK_TIMEOUT = 120;
+
+export const CACHE_LOCK_FILE = '.lock';
+
+const POLL_INTERVAL_MS = 250;
+/** A held lock file is touched this often, so one that was not touched for STALE_AFTER_MS is abandoned */
+const HEARTBEAT_MS = 10_000;
+const STALE_AFTER_MS = 60_000;
+
+interface LockOwner {
+  /** Identifies one acquisition, so a process only ever releases the lock it created */
+  token: string;
+  pid: number;
+  hostname: string;
+  command: string;
+  acquiredAt: string;
+}
+
+/**
+ * Cross-process lock on a cache directory, held while the repository cache is cloned, fetched,
+ * snapshotted or cleared. The lock is a file created exclusively in the cache directory. It is
+ * reentrant within one instance, so locked operations can call each other.
+ */
+export class CacheLock {
+  private lockPath: string;
+  private depth = 0;
+  private token: string | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  constructor(private cacheDir: string, private timeoutSeconds: number = DEFAULT_LOCK_TIMEOUT) {
+    this.lockPath = path.join(cacheDir, CACHE_LOCK_FILE);
+  }
+
+  async withLock<T>(operation: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    try {
+      return await operation();
+    } finally {
+      await this.release();
+    }
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.depth > 0) {
+      this.depth++;
+      return;
+    }
+
+    const deadline = Date.now() + this.timeoutSeconds * 1000;
+    let waiting = false;
+
+    while (!await this.tryCreate()) {
+      const owner = await this.readOwner(this.lockPath);
+      if (await this.isStale(this.lockPath, owner)) {
+        await this.removeStale(owner);
+        continue;
+      }
+
+      if (Date.now() >= deadline) {
+        throw new Error(
+          `Timed out after ${this.timeoutSeconds}s waiting for the cache lock held by ${describeOwner(owner)}. ` +
+          `If that process is no longer running, delete ${this.lockPath}.`
+        );
+      }
+      if (!waiting) {
+        logger.info(`Waiting for ${describeOwner(owner)} to release the cache...`);
+        waiting = true;
+      }
+      await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+    }
+
+    this.depth = 1;
+    this.heartbeat = setInterval(() => {
+      const now = new Date();
+      fs.utimes(this.lockPath, now, now).catch(() => undefined);
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  private async release(): Promise<void> {
+    if (--this.depth > 0) {
+      return;
+    }
+
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    // Another process may have taken the lock over after judging it stale; leave theirs alone
+    const owner = await this.readOwner(this.lockPath);
+    if (owner?.token === this.token) {
+      await fs.remove(this.lockPath);
+    }
+    this.token = null;
+  }
+
+  /**
+   * Take a stale lock out of the way. It is first renamed to a name of our own, which only one
+   * of several waiting processes can do; if what was renamed turns out not to be stale (another
+   * process took the lock over in the meantime) it is put back, unless a new lock exists.
+   */
+  private async removeStale(owner: LockOwner | null): Promise<void> {
+    const movedPath = `${this.lockPath}.${crypto.randomUUID()}`;
+    try {
+      await fs.rename(this.lockPath, movedPath);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        // Another process got there first
+        return;
+      }
+      throw error;
+    }
+
+    try {
+      if (await this.isStale(movedPath, await this.readOwner(movedPath))) {
+        logger.debug('Removed stale cache lock held by', describeOwner(owner));
+      } else {
+        // Fails if a lock was created meanwhile, which then stands
+        await fs.link(movedPath, this.lockPath).catch(() => undefined);
+      }
+    } finally {
+      await fs.remove(movedPath);
+    }
+  }
+
+  /** Create the lock file, failing if it already exists */
+  private async tryCreate(): Promise<boolean> {
+    await fs.ensureDir(this.cacheDir);
+    const owner: LockOwner = {
+      token: crypto.randomUUID(),
+      pid: process.pid,
+      hostname: os.hostname(),
+      command: ['mui-bueno', ...process.argv.slice(2)].join(' '),
+      acquiredAt: new Date().toISOString()
+    };
+
+    try {
+      await fs.writeFile(this.lockPath, JSON.stringify(owner, null, 2), { flag: 'wx' });
+      this.token = owner.token;
+      return true;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'EEXIST') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /** A lock file's owner; null when it is gone or was left half written */
+  private async readOwner(lockPath: string): Promise<LockOwner | null> {
+    try {
+      return await fs.readJson(lockPath);
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * A lock is stale when its owner on this host is no longer running, or when it has not been
+   * touched for longer than the heartbeat allows (owner on another host, hung, or never recorded).
+   */
+  private async isStale(lockPath: string, owner: LockOwner | null): Promise<boolean> {
+    if (owner && owner.hostname === os.hostname() && !isRunning(owner.pid)) {
+      return true;
+    }
+
+    try {
+      const { mtimeMs } = await fs.stat(lockPath);
+      return Date.now() - mtimeMs > STALE_AFTER_MS;
+    } catch {
+      // Released in the meantime
+      return false;
+    }
+  }
+}
+
+/** Whether a process with this pid exists on this host */
+export function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+function describeOwner(owner: LockOwner | null): string {
+  if (!owner) {
+    return 'another process';
+  }
+  return `process ${owner.pid} on ${owner.hostname} (${owner.command}, since ${owner.acquiredAt})`;
+}
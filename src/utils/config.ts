@@ -2,6 +2,10 @@ import fs from 'fs-extra';
 import path from 'path';
 import os from 'os';
 import { CliConfig, GitConfig } from '../types/index.js';
+import { DEFAULT_LOCK_TIMEOUT } from './cache-lock.js';
+import { DEFAULT_FETCH_TTL } from './fetch-policy.js';
+import { TOKEN_ENV, hasEmbeddedCredentials } from './git-auth.js';
+import { validateSources } from './sources.js';
 
 export class ConfigManager {
   private configPath: string;
@@ -59,7 +63,11 @@ export class ConfigManager {
       defaultDownloadPath: './components',
       author: 'anonymous',
       workspace: process.cwd(),
-      cacheDir: path.join(os.homedir(), '.mui-bueno-cache')
+      cacheDir: path.join(os.homedir(), '.mui-bueno-cache'),
+      cacheLockTimeout: DEFAULT_LOCK_TIMEOUT,
+      fetchTtl: DEFAULT_FETCH_TTL,
+      clone: { depth: 0, filter: 'blob:none', sparse: true },
+      importStyle: 'relative'
     };
   }
 
@@ -84,12 +92,38 @@ export class ConfigManager {
     } else {
       if (!configToValidate.git.repositoryUrl) {
         errors.push('Git repository URL is required');
+      } else if (hasEmbeddedCredentials(configToValidate.git.repositoryUrl)) {
+        errors.push(`Git repository URL must not contain credentials; set ${TOKEN_ENV} instead`);
       }
       if (!configToValidate.git.branch) {
         errors.push('Git branch is required');
       }
     }
 
+    errors.push(...validateSources(configToValidate));
+
+    if (configToValidate.importStyle && !['relative', 'alias'].includes(configToValidate.importStyle)) {
+      errors.push('Import style must be "relative" or "alias"');
+    }
+    for (const key of ['include', 'exclude'] as const) {
+      const patterns = configToValidate.files?.[key];
+      if (patterns !== undefined && (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string' || !pattern))) {
+        errors.push(`files.${key} must be a list of glob patterns`);
+      }
+    }
+
+    const { cacheLockTimeout, fetchTtl } = configToValidate;
+    if (cacheLockTimeout !== undefined && (typeof cacheLockTimeout !== 'number' || cacheLockTimeout < 0)) {
+      errors.push('Cache lock timeout must be a number of seconds (0 or more)');
+    }
+    if (fetchTtl !== undefined && (typeof fetchTtl !== 'number' || fetchTtl < 0)) {
+      errors.push('Fetch TTL must be a number of seconds (0 or more)');
+    }
+    const depth = configToValidate.clone?.depth;
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 0)) {
+      errors.push('Clone depth must be a whole number of commits (0 for the full history)');
+    }
+
     // Validate paths
     if (configToValidate.defaultDownloadPath && !path.isAbsolute(configToValidate.defaultDownloadPath)) {
       // This is OK, relative paths are allowed
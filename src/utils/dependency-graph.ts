@@ -0,0 +1,77 @@
+import { DependencyGraph } from '../types/index.js';
+
+export type GraphFormat = 'tree' | 'json' | 'dot';
+
+export const GRAPH_FORMATS: GraphFormat[] = ['tree', 'json', 'dot'];
+
+/**
+ * Render the graph as an indented tree starting at its root. Components that were already
+ * expanded elsewhere are only referenced, so shared dependencies and cycles print once.
+ */
+export function renderTree(graph: DependencyGraph): string {
+  const lines = [graph.root];
+  const expanded = new Set<string>([graph.root]);
+
+  const walk = (name: string, indent: string): void => {
+    const node = graph.nodes[name];
+    if (!node) {
+      return;
+    }
+
+    const children = [
+      ...node.components.map(component => ({ label: component, component })),
+      ...node.sharedFiles.map(file => ({ label: `${file} (shared)`, component: null })),
+      ...node.packages.map(pkg => ({ label: `${pkg} (npm)`, component: null }))
+    ];
+
+    children.forEach((child, index) => {
+      const last = index === children.length - 1;
+      const seen = child.component !== null && expanded.has(child.component);
+      lines.push(`${indent}${last ? '└── ' : '├── '}${child.label}${seen ? ' (see above)' : ''}`);
+
+      if (child.component !== null && !seen) {
+        expanded.add(child.component);
+        walk(child.component, indent + (last ? '    ' : '│   '));
+      }
+    });
+  };
+
+  walk(graph.root, '');
+  return lines.join('\n');
+}
+
+/** Render the graph in Graphviz DOT: boxes for components, notes for shared files, ellipses for packages */
+export function renderDot(graph: DependencyGraph, highlight: string[] = [graph.root]): string {
+  const lines = ['digraph dependencies {', '  rankdir=LR;', '  node [fontname="Helvetica"];'];
+  const declared = new Set<string>();
+
+  const declare = (id: string, attributes: string): void => {
+    if (!declared.has(id)) {
+      declared.add(id);
+      lines.push(`  ${quote(id)} [${attributes}];`);
+    }
+  };
+
+  for (const node of Object.values(graph.nodes)) {
+    declare(node.name, highlight.includes(node.name) ? 'shape=box, style=bold' : 'shape=box');
+    node.components.forEach(component => {
+      declare(component, highlight.includes(component) ? 'shape=box, style=bold' : 'shape=box');
+      lines.push(`  ${quote(node.name)} -> ${quote(component)};`);
+    });
+    node.sharedFiles.forEach(file => {
+      declare(file, highlight.includes(file) ? 'shape=note, style=bold' : 'shape=note');
+      lines.push(`  ${quote(node.name)} -> ${quote(file)};`);
+    });
+    node.packages.forEach(pkg => {
+      declare(`npm:${pkg}`, `shape=ellipse, label=${quote(pkg)}`);
+      lines.push(`  ${quote(node.name)} -> ${quote(`npm:${pkg}`)} [style=dashed];`);
+    });
+  }
+
+  lines.push('}');
+  return lines.join('\n');
+}
+
+function quote(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,47 @@
+import chalk from 'chalk';
+import { redactSecrets } from './git-auth.js';
+
+/** Exit codes scripts can rely on */
+export enum ExitCode {
+  Success = 0,
+  Failure = 1,
+  NotFound = 2,
+  AuthFailure = 3,
+  Conflict = 4,
+  InvalidConfig = 5
+}
+
+// git reports authentication problems through stderr text only
+const AUTH_FAILURE = /permission denied \(publickey|authentication failed|could not read from remote repository|host key verification failed|could not read username|ssh key .* does not exist/i;
+
+/** A failure that maps to a specific exit code */
+export class CliError extends Error {
+  constructor(
+    message: string,
+    readonly exitCode: ExitCode = ExitCode.Failure,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+/**
+ * Report an error and exit with its exit code. With `json` the error is written to stdout as
+ * `{ "error": { ... } }` so scripts parsing the output always get a JSON document.
+ */
+export function exitWithError(error: unknown, json: boolean = false): never {
+  const message = redactSecrets(error instanceof Error ? error.message : String(error));
+  const exitCode = error instanceof CliError
+    ? error.exitCode
+    : AUTH_FAILURE.test(message) ? ExitCode.AuthFailure : ExitCode.Failure;
+
+  if (json) {
+    const details = error instanceof CliError ? error.details : {};
+    console.log(JSON.stringify({ error: { code: ExitCode[exitCode], exitCode, message, ...details } }, null, 2));
+  } else {
+    console.error(chalk.red(`Error: ${message}`));
+  }
+
+  process.exit(exitCode);
+}
@@ -0,0 +1,21 @@
+/** Seconds a fetch of the repository cache stays fresh */
+export const DEFAULT_FETCH_TTL = 300;
+
+/**
+ * - `auto`: fetch when the last fetch is older than the TTL, and fall back to the cache when
+ *   fetching fails
+ * - `refresh`: always fetch
+ * - `offline`: never fetch; work from the cache only
+ */
+export type FetchMode = 'auto' | 'refresh' | 'offline';
+
+let fetchMode: FetchMode = 'auto';
+
+/** Apply the global `--refresh` / `--offline` flags */
+export function configureFetch(options: { refresh?: boolean; offline?: boolean }): void {
+  fetchMode = options.offline ? 'offline' : options.refresh ? 'refresh' : 'auto';
+}
+
+export function getFetchMode(): FetchMode {
+  return fetchMode;
+}
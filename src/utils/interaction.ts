@@ -0,0 +1,38 @@
+import inquirer, { Answers, DistinctQuestion } from 'inquirer';
+
+let assumeYes = false;
+let nonInteractive = false;
+
+/**
+ * Apply the global `--yes` / `--non-interactive` flags. Without a TTY on stdin the CLI is
+ * non-interactive as well.
+ */
+export function configureInteraction(options: { yes?: boolean; nonInteractive?: boolean }): void {
+  assumeYes = !!options.yes;
+  nonInteractive = !!options.nonInteractive;
+}
+
+export function isInteractive(): boolean {
+  return !assumeYes && !nonInteractive && !!process.stdin.isTTY;
+}
+
+/** Ask a yes/no question. When not interactive, `--yes` answers yes and otherwise the default applies */
+export async function confirm(message: string, defaultValue: boolean = false): Promise<boolean> {
+  if (!isInteractive()) {
+    return assumeYes || defaultValue;
+  }
+
+  const { confirmed } = await inquirer.prompt([{ type: 'confirm', name: 'confirmed', message, default: defaultValue }]);
+  return confirmed;
+}
+
+/** Ask the questions, or answer each with its default when not interactive */
+export async function promptWithDefaults<T extends Answers>(questions: DistinctQuestion<T>[]): Promise<T> {
+  if (isInteractive()) {
+    return inquirer.prompt<T>(questions);
+  }
+
+  return Object.fromEntries(
+    questions.map(question => [question.name, typeof question.default === 'function' ? undefined : question.default])
+  ) as T;
+}
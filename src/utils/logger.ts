@@ -0,0 +1,42 @@
+import { redactSecrets } from './git-auth.js';
+
+let silent = false;
+/** Debug output is opt-in: `--verbose`, or any non-empty DEBUG in the environment */
+let verbose = !!process.env.DEBUG;
+
+/** Git errors and URLs can carry credentials; never print them */
+function redact(args: unknown[]): unknown[] {
+  return args.map(arg => typeof arg === 'string' || arg instanceof Error ? redactSecrets(String(arg)) : arg);
+}
+
+/**
+ * Progress output from the services and commands. Commands that print machine-readable output
+ * (e.g. --json) silence it so stdout only carries their result. Only `info` is printed by default.
+ */
+export const logger = {
+  setSilent(value: boolean): void {
+    silent = value;
+  },
+
+  isSilent(): boolean {
+    return silent;
+  },
+
+  setVerbose(value: boolean): void {
+    verbose = value;
+  },
+
+  /** Details of what the services do, printed only in verbose mode */
+  debug(...args: unknown[]): void {
+    if (verbose && !silent) {
+      console.log(...redact(args));
+    }
+  },
+
+  /** Human-readable command output that has no place in machine-readable output */
+  info(...args: unknown[]): void {
+    if (!silent) {
+      console.log(...redact(args));
+    }
+  }
+};
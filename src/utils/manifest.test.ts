@@ -0,0 +1,126 @@
+import fs from 'fs-extra';
+import os from 'os';
+import path from 'path';
+import { DownloadResult } from '../types/index.js';
+import { ManifestManager, computeChecksum, hashDirectory, hashFile, verifyLock } from './manifest.js';
+
+describe('manifest hashing', () => {
+  let root: string;
+
+  beforeEach(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-manifest-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(root);
+  });
+
+  it('hashes every file below a directory by posix path', async () => {
+    await fs.outputFile(path.join(root, 'Button', 'Button.tsx'), 'export const Button = 1;');
+    await fs.outputFile(path.join(root, 'Button', 'styles', 'index.ts'), 'export {};');
+
+    const hashes = await hashDirectory(path.join(root, 'Button'));
+
+    expect(Object.keys(hashes).sort()).toEqual(['Button.tsx', 'styles/index.ts']);
+    expect(hashes['Button.tsx']).toBe(await hashFile(path.join(root, 'Button', 'Button.tsx')));
+  });
+
+  it('returns no hashes for a missing directory', async () => {
+    expect(await hashDirectory(path.join(root, 'missing'))).toEqual({});
+  });
+
+  it('computes a checksum independent of insertion order', () => {
+    expect(computeChecksum({ a: '1', b: '2' })).toBe(computeChecksum({ b: '2', a: '1' }));
+    expect(computeChecksum({ a: '1', b: '2' })).not.toBe(computeChecksum({ a: '1', b: '3' }));
+    expect(computeChecksum({ a: '1' })).not.toBe(computeChecksum({ b: '1' }));
+  });
+});
+
+describe('verifyLock', () => {
+  let project: string;
+  let componentsDir: string;
+
+  const download = (): DownloadResult => ({
+    extractedPath: path.join(componentsDir, 'Form', 'Error'),
+    ref: 'main',
+    commit: 'c0ffee',
+    components: [
+      { name: 'Form/Error', path: path.join(componentsDir, 'Form', 'Error'), dependencies: ['Button'], sharedFiles: ['common/theme.ts'] },
+      { name: 'Button', path: path.join(componentsDir, 'Button'), dependencies: [], sharedFiles: [] }
+    ],
+    sources: {},
+    excludedFiles: []
+  });
+
+  beforeEach(async () => {
+    project = await fs.mkdtemp(path.join(os.tmpdir(), 'mui-bueno-verify-'));
+    componentsDir = path.join(project, 'src', 'components');
+    await fs.outputFile(path.join(componentsDir, 'Form', 'Error', 'Error.tsx'), 'export const Error = 1;');
+    await fs.outputFile(path.join(componentsDir, 'Button', 'Button.tsx'), 'export const Button = 1;');
+    await fs.outputFile(path.join(project, 'src', 'common', 'theme.ts'), 'export const theme = {};');
+  });
+
+  afterEach(async () => {
+    await fs.remove(project);
+  });
+
+  it('records the hashes of components and shared files', async () => {
+    const manifest = await new ManifestManager(project).recordDownload('Form/Error', download(), {
+      repositoryUrl: 'git@example.com:ui.git',
+      outputDir: componentsDir
+    });
+
+    expect(manifest.componentsDir).toBe('src/components');
+    expect(manifest.components).toEqual({ 'Form/Error': 'main' });
+    expect(manifest.lock.components['Form/Error']).toMatchObject({
+      commit: 'c0ffee',
+      dependencies: ['Button'],
+      sharedFiles: ['common/theme.ts'],
+      files: { 'Error.tsx': await hashFile(path.join(componentsDir, 'Form', 'Error', 'Error.tsx')) }
+    });
+    expect(manifest.lock.sharedFiles['common/theme.ts'].hash).toBe(await hashFile(path.join(project, 'src', 'common', 'theme.ts')));
+    expect(await verifyLock(manifest, project)).toEqual([]);
+  });
+
+  it('reports modified and missing files relative to the project', async () => {
+    const manifest = await new ManifestManager(project).recordDownload('Form/Error', download(), {
+      repositoryUrl: 'git@example.com:ui.git',
+      outputDir: componentsDir
+    });
+    await fs.appendFile(path.join(componentsDir, 'Button', 'Button.tsx'), '\n// local edit');
+    await fs.remove(path.join(project, 'src', 'common', 'theme.ts'));
+
+    expect(await verifyLock(manifest, project)).toEqual([
+      { path: 'src/components/Button/Button.tsx', component: 'Button', reason: 'modified' },
+      { path: 'src/common/theme.ts', sharedFile: 'common/theme.ts', reason: 'missing' }
+    ]);
+  });
+
+  it('checks a staged components directory but reports project paths', async () => {
+    const manifest = await new ManifestManager(project).recordDownload('Form/Error', download(), {
+      repositoryUrl: 'git@example.com:ui.git',
+      outputDir: componentsDir
+    });
+    const staged = path.join(project, '.staging', 'components');
+    await fs.copy(componentsDir, staged);
+    await fs.outputFile(path.join(project, '.staging', 'common', 'theme.ts'), 'export const theme = { changed: true };');
+
+    expect(await verifyLock(manifest, project, staged)).toEqual([
+      { path: 'src/common/theme.ts', sharedFile: 'common/theme.ts', reason: 'modified' }
+    ]);
+  });
+
+  it('locks kept local versions at the upstream hash', async () => {
+    const errorPath = path.join(componentsDir, 'Form', 'Error', 'Error.tsx');
+    const manifest = await new ManifestManager(project).recordDownload('Form/Error', download(), {
+      repositoryUrl: 'git@example.com:ui.git',
+      outputDir: componentsDir,
+      lockedHashes: { [errorPath]: 'upstream-hash' }
+    });
+
+    expect(manifest.lock.components['Form/Error'].files['Error.tsx']).toBe('upstream-hash');
+    expect(await verifyLock(manifest, project)).toEqual([
+      { path: 'src/components/Form/Error/Error.tsx', component: 'Form/Error', reason: 'modified' }
+    ]);
+  });
+});
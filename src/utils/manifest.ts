@@ -0,0 +1,246 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import { DownloadResult, FilePolicyConfig, LockedComponent, ProjectManifest } from '../types/index.js';
+import { DEFAULT_SOURCE } from './sources.js';
+
+export const MANIFEST_FILENAME = 'mui-bueno.json';
+
+export interface RecordDownloadOptions {
+  /** URL of the default source */
+  repositoryUrl: string;
+  outputDir: string;
+  /** Directory the result was downloaded into when it differs from `outputDir` (e.g. a pristine copy) */
+  hashedOutputDir?: string;
+  /** Whether the component was explicitly requested rather than updated as a dependency */
+  requested?: boolean;
+  /** Hashes to lock instead of those on disk, by absolute path: local versions kept over upstream's are locked at upstream's */
+  lockedHashes?: Record<string, string>;
+  /** Include and exclude globs the download was copied with, beyond the defaults */
+  filePolicy?: FilePolicyConfig;
+}
+
+export class ManifestManager {
+  private manifestPath: string;
+
+  constructor(private projectRoot: string = process.cwd()) {
+    this.manifestPath = path.join(projectRoot, MANIFEST_FILENAME);
+  }
+
+  get path(): string {
+    return this.manifestPath;
+  }
+
+  async exists(): Promise<boolean> {
+    return await fs.pathExists(this.manifestPath);
+  }
+
+  async load(): Promise<ProjectManifest | null> {
+    if (!await this.exists()) {
+      return null;
+    }
+
+    const manifest = await fs.readJson(this.manifestPath);
+    return {
+      ...manifest,
+      components: manifest.components || {},
+      lock: {
+        components: manifest.lock?.components || {},
+        sharedFiles: manifest.lock?.sharedFiles || {}
+      }
+    };
+  }
+
+  async save(manifest: ProjectManifest): Promise<void> {
+    await fs.writeJson(this.manifestPath, sortManifest(manifest), { spaces: 2 });
+  }
+
+  /**
+   * Record a finished download in the manifest. Must be called after any post-processing
+   * (e.g. test/story removal) so the recorded hashes match what is on disk.
+   */
+  async recordDownload(componentName: string, result: DownloadResult, options: RecordDownloadOptions): Promise<ProjectManifest> {
+    const { repositoryUrl, outputDir } = options;
+    const componentsDir = toPosix(path.relative(this.projectRoot, path.resolve(outputDir))) || '.';
+    const manifest = await this.load() || createEmptyManifest(repositoryUrl, componentsDir);
+
+    if (manifest.componentsDir !== componentsDir) {
+      console.warn(`Warning: manifest components directory changed from ${manifest.componentsDir} to ${componentsDir}`);
+    }
+    manifest.repositoryUrl = repositoryUrl;
+    manifest.componentsDir = componentsDir;
+    for (const [source, url] of Object.entries(result.sources)) {
+      if (source !== DEFAULT_SOURCE) {
+        manifest.sources = { ...manifest.sources, [source]: url };
+      }
+    }
+    if (options.requested !== false || componentName in manifest.components) {
+      manifest.components[componentName] = result.ref || '';
+    }
+
+    // Component paths in the result already point at the hashed tree; shared files live next to it
+    const sharedRoot = path.dirname(path.resolve(options.hashedOutputDir || outputDir));
+
+    for (const component of result.components) {
+      const files = await hashDirectory(component.path);
+      for (const file of Object.keys(files)) {
+        files[file] = options.lockedHashes?.[path.join(component.path, file)] || files[file];
+      }
+      const commit = component.commit || result.commit;
+      const locked: LockedComponent = {
+        ...(component.source && { source: component.source }),
+        branch: component.commit ? undefined : result.ref,
+        commit,
+        checksum: computeChecksum(files),
+        dependencies: [...component.dependencies].sort(),
+        sharedFiles: [...component.sharedFiles].sort(),
+        files,
+        ...(options.filePolicy && Object.keys(options.filePolicy).length > 0 && { filePolicy: options.filePolicy })
+      };
+      manifest.lock.components[component.name] = locked;
+
+      for (const sharedFile of component.sharedFiles) {
+        const sharedPath = path.join(sharedRoot, sharedFile);
+        if (await fs.pathExists(sharedPath)) {
+          manifest.lock.sharedFiles[sharedFile] = {
+            commit,
+            hash: options.lockedHashes?.[sharedPath] || await hashFile(sharedPath)
+          };
+        }
+      }
+    }
+
+    await this.save(manifest);
+    return manifest;
+  }
+}
+
+export interface LockDrift {
+  path: string;
+  component?: string;
+  sharedFile?: string;
+  reason: 'missing' | 'modified';
+}
+
+/**
+ * Compare the files on disk with the hashes recorded in the lock. `componentsDir` is checked in
+ * place of the manifest's, e.g. a staged install. Paths in the result are relative to the
+ * project root, as the files are or will be laid out there.
+ */
+export async function verifyLock(
+  manifest: ProjectManifest,
+  projectRoot: string = process.cwd(),
+  componentsDir: string = path.resolve(projectRoot, manifest.componentsDir)
+): Promise<LockDrift[]> {
+  const drift: LockDrift[] = [];
+  const sharedRoot = path.dirname(componentsDir);
+  const projectSharedRoot = path.dirname(path.resolve(projectRoot, manifest.componentsDir));
+  const toProjectPath = (filePath: string): string =>
+    toPosix(path.relative(projectRoot, path.join(projectSharedRoot, path.relative(sharedRoot, filePath))));
+
+  for (const [name, locked] of Object.entries(manifest.lock.components)) {
+    const componentDir = path.join(componentsDir, ...name.split('/'));
+    for (const [file, expected] of Object.entries(locked.files)) {
+      const filePath = path.join(componentDir, ...file.split('/'));
+      const relative = toProjectPath(filePath);
+      if (!await fs.pathExists(filePath)) {
+        drift.push({ path: relative, component: name, reason: 'missing' });
+      } else if (await hashFile(filePath) !== expected) {
+        drift.push({ path: relative, component: name, reason: 'modified' });
+      }
+    }
+  }
+
+  for (const [file, locked] of Object.entries(manifest.lock.sharedFiles)) {
+    const filePath = path.join(sharedRoot, ...file.split('/'));
+    const relative = toProjectPath(filePath);
+    if (!await fs.pathExists(filePath)) {
+      drift.push({ path: relative, sharedFile: file, reason: 'missing' });
+    } else if (await hashFile(filePath) !== locked.hash) {
+      drift.push({ path: relative, sharedFile: file, reason: 'modified' });
+    }
+  }
+
+  return drift;
+}
+
+export function createEmptyManifest(repositoryUrl: string, componentsDir: string): ProjectManifest {
+  return {
+    repositoryUrl,
+    componentsDir,
+    components: {},
+    lock: {
+      components: {},
+      sharedFiles: {}
+    }
+  };
+}
+
+export async function hashFile(filePath: string): Promise<string> {
+  const content = await fs.readFile(filePath);
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/** Hash every file below `dir`, keyed by its posix path relative to `dir`. */
+export async function hashDirectory(dir: string): Promise<Record<string, string>> {
+  const hashes: Record<string, string> = {};
+  if (!await fs.pathExists(dir)) {
+    return hashes;
+  }
+
+  for (const file of await listFiles(dir)) {
+    hashes[toPosix(path.relative(dir, file))] = await hashFile(file);
+  }
+
+  return hashes;
+}
+
+/** Single checksum over a set of file hashes, independent of insertion order. */
+export function computeChecksum(files: Record<string, string>): string {
+  const hash = crypto.createHash('sha256');
+  for (const file of Object.keys(files).sort()) {
+    hash.update(`${file}\0${files[file]}\n`);
+  }
+  return hash.digest('hex');
+}
+
+export function toPosix(filePath: string): string {
+  return filePath.split(path.sep).join('/');
+}
+
+/** Recursively list every file below `dir` as absolute paths. */
+export async function listFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  const entries = await fs.readdir(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
+function sortManifest(manifest: ProjectManifest): ProjectManifest {
+  return {
+    repositoryUrl: manifest.repositoryUrl,
+    ...(manifest.sources && { sources: sortKeys(manifest.sources) }),
+    componentsDir: manifest.componentsDir,
+    components: sortKeys(manifest.components),
+    lock: {
+      components: sortKeys(manifest.lock.components),
+      sharedFiles: sortKeys(manifest.lock.sharedFiles)
+    }
+  };
+}
+
+function sortKeys<T>(record: Record<string, T>): Record<string, T> {
+  return Object.keys(record).sort().reduce((sorted, key) => {
+    sorted[key] = record[key];
+    return sorted;
+  }, {} as Record<string, T>);
+}
@@ -0,0 +1,34 @@
+import chalk from 'chalk';
+import { createTwoFilesPatch } from 'diff';
+
+/** A git-style unified diff of a file; undefined content stands for a missing file */
+export function createPatch(displayPath: string, before: string | undefined, after: string | undefined): string {
+  return toGitStylePatch(createTwoFilesPatch(
+    before === undefined ? '/dev/null' : `a/${displayPath}`,
+    after === undefined ? '/dev/null' : `b/${displayPath}`,
+    before ?? '',
+    after ?? ''
+  ));
+}
+
+/** createTwoFilesPatch starts with an "Index:" banner and separator which git-style diffs omit */
+function toGitStylePatch(patch: string): string {
+  const start = patch.indexOf('--- ');
+  return start === -1 ? patch : patch.slice(start);
+}
+
+export function printPatch(patch: string): void {
+  for (const line of patch.trimEnd().split('\n')) {
+    if (line.startsWith('+++') || line.startsWith('---')) {
+      console.log(chalk.bold(line));
+    } else if (line.startsWith('@@')) {
+      console.log(chalk.cyan(line));
+    } else if (line.startsWith('+')) {
+      console.log(chalk.green(line));
+    } else if (line.startsWith('-')) {
+      console.log(chalk.red(line));
+    } else {
+      console.log(line);
+    }
+  }
+}
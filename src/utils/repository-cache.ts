@@ -0,0 +1,110 @@
+import fs from 'fs-extra';
+import path from 'path';
+import crypto from 'crypto';
+import simpleGit from 'simple-git';
+import { toPosix } from './manifest.js';
+
+/** Directory under the cache directory holding one directory per repository */
+export const REPOSITORIES_DIR = 'repos';
+/** The clone inside a repository's cache directory */
+export const CLONE_DIR = 'repo';
+/** Per-commit snapshots inside a repository's cache directory */
+export const SNAPSHOTS_DIR = 'snapshots';
+/** When the clone was last fetched, inside a repository's cache directory */
+export const FETCH_STATE_FILE = 'fetch.json';
+
+export interface CachedRepository {
+  key: string;
+  path: string;
+  /** Origin of the clone; null when the clone is missing or broken */
+  url: string | null;
+}
+
+const FILE_URL = /^file:\/\//i;
+const SCHEME_URL = /^[a-z][a-z0-9+.-]*:\/\/(?:[^@/]*@)?([^/:]+)(?::\d+)?\/*(.*)$/i;
+// scp-like `user@host:path`; a one-letter "host" is a Windows drive
+const SCP_LIKE_URL = /^(?:[^@/]+@)?([^/:\\]{2,}):\/*(.*)$/;
+
+/**
+ * Reduce the ways of writing a repository URL to one form, so the SSH and HTTPS URLs of a
+ * repository share a cache: `git@host:org/repo.git`, `ssh://git@host/org/repo` and
+ * `https://user@host/org/repo.git` all become `host/org/repo`. Local paths become absolute.
+ */
+export function normalizeRepositoryUrl(url: string): string {
+  const trimmed = url.trim().replace(/\/+$/, '').replace(/\.git$/, '');
+  const localPath = getLocalRepositoryPath(trimmed);
+  if (localPath) {
+    return toPosix(localPath);
+  }
+
+  const match = trimmed.match(SCHEME_URL) || trimmed.match(SCP_LIKE_URL)!;
+  return `${match[1].toLowerCase()}/${match[2]}`;
+}
+
+/** The absolute directory of a repository given as a local path or `file://` URL; null for remote URLs */
+export function getLocalRepositoryPath(url: string): string | null {
+  const trimmed = url.trim();
+  if (FILE_URL.test(trimmed)) {
+    return path.resolve(trimmed.replace(FILE_URL, ''));
+  }
+  if (SCHEME_URL.test(trimmed) || SCP_LIKE_URL.test(trimmed)) {
+    return null;
+  }
+  return path.resolve(trimmed);
+}
+
+/** Directory name for a repository: its name for readability plus a hash of the normalized URL */
+export function getRepositoryCacheKey(url: string): string {
+  const normalized = normalizeRepositoryUrl(url);
+  const name = path.posix.basename(normalized).replace(/[^a-zA-Z0-9._-]/g, '-') || 'repository';
+  const hash = crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 12);
+  return `${name}-${hash}`;
+}
+
+export function getRepositoryCacheDir(cacheDir: string, url: string): string {
+  return path.join(cacheDir, REPOSITORIES_DIR, getRepositoryCacheKey(url));
+}
+
+export async function listCachedRepositories(cacheDir: string): Promise<CachedRepository[]> {
+  const repositoriesDir = path.join(cacheDir, REPOSITORIES_DIR);
+  if (!await fs.pathExists(repositoriesDir)) {
+    return [];
+  }
+
+  const repositories: CachedRepository[] = [];
+  for (const entry of await fs.readdir(repositoriesDir, { withFileTypes: true })) {
+    if (entry.isDirectory()) {
+      const repositoryDir = path.join(repositoriesDir, entry.name);
+      repositories.push({ key: entry.name, path: repositoryDir, url: await readOriginUrl(path.join(repositoryDir, CLONE_DIR)) });
+    }
+  }
+  return repositories.sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/** The origin URL of a clone; null when there is no clone */
+export async function readOriginUrl(clonePath: string): Promise<string | null> {
+  if (!await fs.pathExists(path.join(clonePath, '.git'))) {
+    return null;
+  }
+
+  try {
+    return (await simpleGit({ baseDir: clonePath }).remote(['get-url', 'origin']) || '').trim() || null;
+  } catch {
+    return null;
+  }
+}
+
+/** When a repository's clone was last cloned or fetched; null when unknown */
+export async function readLastFetch(repositoryDir: string): Promise<Date | null> {
+  try {
+    const { fetchedAt } = await fs.readJson(path.join(repositoryDir, FETCH_STATE_FILE));
+    const date = new Date(fetchedAt);
+    return isNaN(date.getTime()) ? null : date;
+  } catch {
+    return null;
+  }
+}
+
+export async function recordFetch(repositoryDir: string, fetchedAt: Date): Promise<void> {
+  await fs.writeJson(path.join(repositoryDir, FETCH_STATE_FILE), { fetchedAt: fetchedAt.toISOString() }, { spaces: 2 });
+}
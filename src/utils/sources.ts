@@ -0,0 +1,83 @@
+import { CliConfig, ProjectManifest, SourceConfig } from '../types/index.js';
+import { CliError, ExitCode } from './errors.js';
+import { TOKEN_ENV, hasEmbeddedCredentials } from './git-auth.js';
+
+/** Name of the source configured under `git`; its components are addressed without a prefix */
+export const DEFAULT_SOURCE = 'default';
+
+const SOURCE_NAME = /^[a-zA-Z0-9_-]+$/;
+
+export interface SourceComponentName {
+  source: string;
+  name: string;
+}
+
+/** Every configured source, the default one first */
+export function getSources(config: CliConfig): SourceConfig[] {
+  return [{ ...config.git, name: DEFAULT_SOURCE }, ...(config.sources || [])];
+}
+
+export function getSource(config: CliConfig, name: string = DEFAULT_SOURCE): SourceConfig {
+  const source = getSources(config).find(candidate => candidate.name === name);
+  if (!source) {
+    throw new CliError(
+      `Unknown source "${name}". Configured sources: ${getSources(config).map(candidate => candidate.name).join(', ')}`,
+      ExitCode.NotFound
+    );
+  }
+  return source;
+}
+
+/** Split `source:Category/Component`; names without a prefix belong to the default source */
+export function parseComponentName(input: string): SourceComponentName {
+  const separator = input.indexOf(':');
+  if (separator > 0 && SOURCE_NAME.test(input.slice(0, separator))) {
+    return { source: input.slice(0, separator), name: input.slice(separator + 1) };
+  }
+  return { source: DEFAULT_SOURCE, name: input };
+}
+
+/** The name a component is addressed by: prefixed with its source unless that is the default one */
+export function formatComponentName(name: string, source: string = DEFAULT_SOURCE): string {
+  return source === DEFAULT_SOURCE ? name : `${source}:${name}`;
+}
+
+/** Repository URLs recorded in the manifest, by source name */
+export function getManifestSourceUrls(manifest: ProjectManifest | null): Record<string, string> {
+  if (!manifest) {
+    return {};
+  }
+  return { ...manifest.sources, [DEFAULT_SOURCE]: manifest.repositoryUrl };
+}
+
+export function validateSources(config: CliConfig): string[] {
+  const errors: string[] = [];
+  const names = new Set([DEFAULT_SOURCE]);
+
+  for (const source of config.sources || []) {
+    if (!source.name || !SOURCE_NAME.test(source.name)) {
+      errors.push(`Source name "${source.name || ''}" may only contain letters, digits, "-" and "_"`);
+    } else if (names.has(source.name)) {
+      errors.push(`Source "${source.name}" is configured more than once`);
+    }
+    names.add(source.name);
+
+    if (!source.repositoryUrl) {
+      errors.push(`Source "${source.name}" needs a repository URL`);
+    } else if (hasEmbeddedCredentials(source.repositoryUrl)) {
+      errors.push(`Source "${source.name}" URL must not contain credentials; set ${TOKEN_ENV} instead`);
+    }
+    if (!source.branch) {
+      errors.push(`Source "${source.name}" needs a branch`);
+    }
+  }
+
+  for (const source of getSources(config)) {
+    const unknown = (source.dependencySources || []).filter(name => !names.has(name));
+    if (unknown.length > 0) {
+      errors.push(`Source "${source.name}" depends on unknown source(s): ${unknown.join(', ')}`);
+    }
+  }
+
+  return errors;
+}